@@ -1,50 +1,271 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo, SetStateAction } from 'react';
 import ParticipantInput from './components/ParticipantInput';
 import ParticipantList from './components/ParticipantList';
 import RaffleDisplay from './components/RaffleDisplay';
 import Confetti from './components/Confetti';
+import FairDrawPanel from './components/FairDrawPanel';
+import RaffleManager from './components/RaffleManager';
+import UndoToast from './components/UndoToast';
+import MultiDrawSetupModal from './components/MultiDrawSetupModal';
+import Podium from './components/Podium';
+import WaveTitle from './components/WaveTitle';
+import PrizePanel from './components/PrizePanel';
+import ResolutionSwitcher from './components/ResolutionSwitcher';
+import RemoteControlPanel from './components/RemoteControlPanel';
+import ChatEntryPanel from './components/ChatEntryPanel';
+import ShortcutHelpModal from './components/ShortcutHelpModal';
+import ThemeEditorModal from './components/ThemeEditorModal';
+import SpinSettingsPanel from './components/SpinSettingsPanel';
+import WheelRendererPanel from './components/WheelRendererPanel';
+import EliminationPanel from './components/EliminationPanel';
 import { EnterFullScreenIcon, ExitFullScreenIcon, MusicOffIcon, MusicOnIcon } from './components/icons';
+import { DrawVisualization, Elimination, FairDraw, MultiDraw, Participant, ParticipantDraft, Prize, PrizeTier, Raffle, WinnerHistoryEntry } from './types';
+import { createFairDraw, serializeParticipants } from './utils/fairness';
+import { secureRandom } from './utils/random';
+import { formatPlace, normalizeWinnerHistory } from './utils/history';
+import { cleanName, getCoreName, isSameName } from './utils/names';
+import { createParticipant, normalizeParticipants } from './utils/participants';
+import { awardPrize, formatPrizeValue, normalizePrizes } from './utils/prizes';
+import {
+  UndoEntry,
+  UndoHistory,
+  applyWheelOrder,
+  loadUndoHistory,
+  pushUndoEntry,
+  removeRaffleFromUndoHistory,
+  saveUndoHistory,
+} from './utils/undoHistory';
+import { RemoteCommand, RemoteConnection, RemoteConnectionStatus, connectRemoteControl } from './utils/remoteControl';
+import { ShortcutBindings, findShortcutAction, getShortcutKey, isTypingTarget, normalizeShortcuts } from './utils/shortcuts';
+import { ChatConnectionStatus, ChatEntrySettings, ChatMessage, connectIrcChat, getChatEntryAction, normalizeChatSettings } from './utils/chat';
+import { DisplayState, SyncMessage, openSyncChannel, postSyncMessage, runAsSyncLeader } from './utils/sync';
+import { getCanvasFit, getResolutionPreset, isPortraitPreset } from './utils/resolution';
+import { getSegmentArcs, normalizeCanvasWheelThreshold, pickWeightedIndex } from './utils/wheel';
+import { SpinSettings, getPointerDeflection, getSpinRotation, getSpinTicks, isSpinFinished, normalizeSpinSettings, planPhysicsSpin, planSpin } from './utils/spinEngine';
+import { Theme, applyThemeToDocument, normalizeTheme } from './utils/theme';
+
+const DEFAULT_RAFFLE_TITLE = 'Prize Wheel Raffle';
+// How long each winner stays on screen before the next spin of a multi-winner draw
+const MULTI_DRAW_PAUSE_MS = 4000;
+// Matches the segment-eliminate animation in index.html
+const ELIMINATION_ANIMATION_MS = 1200;
+
+// Class sets for the window-driven layout and for canvases locked to a stream resolution.
+// Locked canvases avoid viewport breakpoints so a preset looks the same on every monitor.
+const LAYOUT_CLASSES = {
+  responsive: {
+    page: 'p-4 sm:p-6 lg:p-8',
+    title: 'text-4xl sm:text-5xl lg:text-6xl',
+    main: 'flex-col xl:flex-row',
+    panel: 'h-2/5 xl:h-auto xl:w-1/3 xl:max-w-md',
+    stage: 'p-2 sm:p-4 md:p-6',
+  },
+  landscape: {
+    page: 'p-8',
+    title: 'text-6xl',
+    main: 'flex-row',
+    panel: 'w-1/3 max-w-md',
+    stage: 'p-6',
+  },
+  // Vertical video: the wheel goes on top and the panel underneath
+  portrait: {
+    page: 'p-8',
+    title: 'text-6xl',
+    main: 'flex-col-reverse',
+    panel: 'h-2/5',
+    stage: 'p-6',
+  },
+};
 
-const logoUrl = 'https://i.postimg.cc/3RJKCdXW/smlogo1.png';
+const createRaffle = (title: string, participants: Participant[] = []): Raffle => ({
+  id: crypto.randomUUID(),
+  title,
+  participants,
+  prizes: [],
+  currentPrizeId: null,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+// Skips saved raffles that aren't objects and repairs missing or duplicate ids and titles.
+const normalizeRaffles = (saved: unknown): Raffle[] => {
+  if (!Array.isArray(saved)) return [];
+  const ids = new Set<string>();
+  return saved.flatMap((raffle): Raffle[] => {
+    if (!isRecord(raffle)) return [];
+    const id = typeof raffle.id === 'string' && raffle.id && !ids.has(raffle.id) ? raffle.id : crypto.randomUUID();
+    ids.add(id);
+    const prizes = normalizePrizes(raffle.prizes);
+    const currentPrize = prizes.find(p => p.id === raffle.currentPrizeId);
+    return [{
+      id,
+      title: typeof raffle.title === 'string' && raffle.title.trim() ? raffle.title : DEFAULT_RAFFLE_TITLE,
+      participants: normalizeParticipants(raffle.participants),
+      prizes,
+      currentPrizeId: currentPrize ? currentPrize.id : null,
+    }];
+  });
+};
 
-const getCoreName = (name: string): string => {
-  if (!name) return "";
-  // Extract only alphabetic characters to form the core name for comparison.
-  // This groups names like "Lucas", "$10 Lucas", and "Lucas2" together.
-  const alphabeticOnly = name.replace(/[^a-zA-Z]/g, '');
-  return alphabeticOnly || name.trim(); // Fallback to the original name if no letters are found
+// Loads the saved raffles, migrating the single legacy 'participantsList' into a default raffle.
+const loadRaffles = (): Raffle[] => {
+  try {
+    const savedRaffles = localStorage.getItem('raffles');
+    if (savedRaffles) {
+      const raffles = normalizeRaffles(JSON.parse(savedRaffles));
+      if (raffles.length > 0) return raffles;
+    }
+  } catch (error) {
+    console.error("Error parsing raffles from localStorage", error);
+  }
+
+  try {
+    const savedParticipants = localStorage.getItem('participantsList');
+    const participants = savedParticipants ? normalizeParticipants(JSON.parse(savedParticipants)) : [];
+    return [createRaffle(DEFAULT_RAFFLE_TITLE, participants)];
+  } catch (error) {
+    console.error("Error parsing participants from localStorage", error);
+    return [createRaffle(DEFAULT_RAFFLE_TITLE)];
+  }
 };
 
 
 const App: React.FC = () => {
-  const [participants, setParticipants] = useState<string[]>(() => {
-    try {
-      const savedParticipants = localStorage.getItem('participantsList');
-      return savedParticipants ? JSON.parse(savedParticipants) : [];
-    } catch (error) {
-      console.error("Error parsing participants from localStorage", error);
-      return [];
-    }
-  });
-  const [wheelParticipants, setWheelParticipants] = useState<string[]>([]);
-  const [winner, setWinner] = useState<string | null>(null);
+  const [raffles, setRaffles] = useState<Raffle[]>(loadRaffles);
+  const [activeRaffleId, setActiveRaffleId] = useState<string>(() => localStorage.getItem('activeRaffleId') ?? '');
+  const activeRaffle = raffles.find(r => r.id === activeRaffleId) ?? raffles[0];
+  const participants = activeRaffle.participants;
+
+  // Participant edits always apply to the raffle that is currently selected
+  const setParticipants = useCallback((update: SetStateAction<Participant[]>) => {
+    setRaffles(prev => prev.map(raffle => {
+      if (raffle.id !== activeRaffle.id) return raffle;
+      const newParticipants = typeof update === 'function' ? update(raffle.participants) : update;
+      return { ...raffle, participants: newParticipants };
+    }));
+  }, [activeRaffle.id]);
+
+  const setPrizes = useCallback((update: SetStateAction<Prize[]>) => {
+    setRaffles(prev => prev.map(raffle => {
+      if (raffle.id !== activeRaffle.id) return raffle;
+      const prizes = typeof update === 'function' ? update(raffle.prizes) : update;
+      // Deleting the selected prize falls back to spinning without one
+      const currentPrizeId = prizes.some(p => p.id === raffle.currentPrizeId) ? raffle.currentPrizeId : null;
+      return { ...raffle, prizes, currentPrizeId };
+    }));
+  }, [activeRaffle.id]);
+
+  const selectPrize = useCallback((prizeId: string | null) => {
+    setRaffles(prev => prev.map(raffle => raffle.id === activeRaffle.id ? { ...raffle, currentPrizeId: prizeId } : raffle));
+  }, [activeRaffle.id]);
+  const [wheelParticipants, setWheelParticipants] = useState<Participant[]>([]);
+  const [winner, setWinner] = useState<Participant | null>(null);
+  // The prize handed out with the winner currently on screen
+  const [winnerPrize, setWinnerPrize] = useState<Prize | null>(null);
   const [isSpinning, setIsSpinning] = useState<boolean>(false);
   const [isReturning, setIsReturning] = useState<boolean>(false);
   const [rotation, setRotation] = useState<number>(0);
   const [preSpinRotation, setPreSpinRotation] = useState<number>(0);
   const [tickCount, setTickCount] = useState<number>(0);
-  const [winnerHistory, setWinnerHistory] = useState<{ winnerName: string; raffleTitle: string; timestamp: number }[]>(() => {
+  // Bend of the pointer during a physics spin; null lets it flick on each tick instead
+  const [pointerDeflection, setPointerDeflection] = useState<number | null>(null);
+  const [winnerHistory, setWinnerHistory] = useState<WinnerHistoryEntry[]>(() => {
     try {
       const savedHistory = localStorage.getItem('winnerHistory');
-      return savedHistory ? JSON.parse(savedHistory) : [];
+      return savedHistory ? normalizeWinnerHistory(JSON.parse(savedHistory)) : [];
     } catch (error) {
       console.error("Error parsing winner history from localStorage", error);
       return [];
     }
   });
+  const [ignoreDiacritics, setIgnoreDiacritics] = useState<boolean>(() => localStorage.getItem('ignoreDiacritics') === 'true');
+  const [isFairMode, setIsFairMode] = useState<boolean>(() => localStorage.getItem('fairMode') === 'true');
+  const [pendingDraw, setPendingDraw] = useState<FairDraw | null>(null);
+  const [revealedDraw, setRevealedDraw] = useState<(FairDraw & { winnerName: string | null }) | null>(null);
+  const [visualization, setVisualization] = useState<DrawVisualization>(() => localStorage.getItem('drawVisualization') === 'cage' ? 'cage' : 'wheel');
+  // Shared with audience windows so generated segment colours match across windows
+  const [wheelStartHue] = useState<number>(() => Math.random() * 360);
+  const [resolutionPresetId, setResolutionPresetId] = useState<string | null>(() => localStorage.getItem('resolutionPreset'));
+  const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [remoteToken, setRemoteToken] = useState<string>(() => localStorage.getItem('controlApiToken') ?? '');
+  // Bumped to reconnect with an unchanged token
+  const [remoteAttempt, setRemoteAttempt] = useState<number>(0);
+  const [remoteStatus, setRemoteStatus] = useState<RemoteConnectionStatus | null>(null);
+  const [chatSettings, setChatSettings] = useState<ChatEntrySettings>(() => {
+    try {
+      const saved = localStorage.getItem('chatEntrySettings');
+      return normalizeChatSettings(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+      console.error("Error parsing chat settings from localStorage", error);
+      return normalizeChatSettings(null);
+    }
+  });
+  // Bumped on every Connect, like remoteAttempt; 0 means disconnected
+  const [chatAttempt, setChatAttempt] = useState<number>(0);
+  const [chatStatus, setChatStatus] = useState<ChatConnectionStatus | null>(null);
+  const [isChatEntryOpen, setIsChatEntryOpen] = useState<boolean>(false);
+  // Viewers who typed the keyword, waiting for the list to unlock
+  const [pendingChatJoins, setPendingChatJoins] = useState<ChatMessage[]>([]);
+  const [chatActivity, setChatActivity] = useState<string[]>([]);
   const [isMuted, setIsMuted] = useState<boolean>(true);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(!!document.fullscreenElement);
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(loadUndoHistory);
+  const [multiDraw, setMultiDraw] = useState<MultiDraw | null>(null);
+  const [isMultiDrawSetupOpen, setIsMultiDrawSetupOpen] = useState<boolean>(false);
+  const [elimination, setElimination] = useState<Elimination | null>(null);
+  const [eliminationAutoContinue, setEliminationAutoContinue] = useState<boolean>(() => localStorage.getItem('eliminationAutoContinue') !== 'false');
+  const [eliminationPauseSeconds, setEliminationPauseSeconds] = useState<number>(() => Number(localStorage.getItem('eliminationPauseSeconds')) || 3);
+  // Spins, multi-winner draws and elimination rounds work through the list they started with
+  const isListLocked = isSpinning || isReturning || !!multiDraw || !!elimination;
+  // A running multi-winner draw starts each spin itself, and so does an elimination round with
+  // auto-continue; one more from a click would skip the schedule. While a segment is fading off,
+  // a spin would still land on it.
+  const isSpinScheduled = multiDraw?.status === 'running'
+    || !!elimination?.eliminating
+    || (elimination?.status === 'running' && eliminationAutoContinue);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(() => {
+    try {
+      const saved = localStorage.getItem('keyboardShortcuts');
+      return normalizeShortcuts(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+      console.error("Error parsing keyboard shortcuts from localStorage", error);
+      return normalizeShortcuts(null);
+    }
+  });
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState<boolean>(false);
+  const [theme, setTheme] = useState<Theme>(() => {
+    try {
+      const saved = localStorage.getItem('theme');
+      return normalizeTheme(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+      console.error("Error parsing theme from localStorage", error);
+      return normalizeTheme(null);
+    }
+  });
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState<boolean>(false);
+  const [spinSettings, setSpinSettings] = useState<SpinSettings>(() => {
+    try {
+      const saved = localStorage.getItem('spinSettings');
+      return normalizeSpinSettings(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+      console.error("Error parsing spin settings from localStorage", error);
+      return normalizeSpinSettings(null);
+    }
+  });
+  const [canvasWheelThreshold, setCanvasWheelThreshold] = useState<number>(() => {
+    try {
+      const saved = localStorage.getItem('canvasWheelThreshold');
+      return normalizeCanvasWheelThreshold(saved ? JSON.parse(saved) : null);
+    } catch (error) {
+      console.error("Error parsing canvas wheel threshold from localStorage", error);
+      return normalizeCanvasWheelThreshold(null);
+    }
+  });
+  // action is null for plain notices
+  const [toast, setToast] = useState<{ id: number; message: string; action: 'undo' | 'redo' | null } | null>(null);
+  // Set while saving fails, so a full storage is reported once rather than on every edit
+  const storageFailureRef = useRef<{ undo: boolean; raffles: boolean }>({ undo: false, raffles: false });
   
   const audioRef = useRef<{
     context: AudioContext | null;
@@ -70,12 +291,29 @@ const App: React.FC = () => {
   });
   const masterGainRef = useRef<GainNode | null>(null);
   const animationFrameId = useRef<number | null>(null);
+  const activeFairDrawRef = useRef<FairDraw | null>(null);
+  // Wheel order to restore on the next list change, set when undoing or redoing a shuffle
+  const pendingWheelOrderRef = useRef<string[] | null>(null);
+  const syncChannelRef = useRef<BroadcastChannel | null>(null);
+  const remoteRef = useRef<RemoteConnection | null>(null);
+  // Chat accounts that already entered since entries last opened
+  const chatJoinedIdsRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     // Keep the wheel participants in sync with the master list
-    setWheelParticipants(participants);
+    const wheelOrder = pendingWheelOrderRef.current;
+    pendingWheelOrderRef.current = null;
+    setWheelParticipants(wheelOrder ? applyWheelOrder(participants, wheelOrder) : participants);
   }, [participants]);
 
+  useEffect(() => {
+    const saved = saveUndoHistory(undoHistory);
+    if (!saved && !storageFailureRef.current.undo) {
+      setToast({ id: Date.now(), message: "Browser storage is full: undo history won't survive a reload.", action: null });
+    }
+    storageFailureRef.current.undo = !saved;
+  }, [undoHistory]);
+
 
   useEffect(() => {
     return () => {
@@ -105,14 +343,84 @@ const App: React.FC = () => {
     }
   }, [winnerHistory]);
 
-  // Save participants to localStorage whenever it changes
+  // Save raffles (each with its own participant list) to localStorage whenever they change
   useEffect(() => {
     try {
-      localStorage.setItem('participantsList', JSON.stringify(participants));
+      localStorage.setItem('raffles', JSON.stringify(raffles));
+      localStorage.removeItem('participantsList'); // Migrated into the raffles list
+      storageFailureRef.current.raffles = false;
     } catch (error) {
-      console.error("Error saving participants to localStorage", error);
+      console.error("Error saving raffles to localStorage", error);
+      if (!storageFailureRef.current.raffles) {
+        setToast({ id: Date.now(), message: 'Browser storage is full: the participant lists could not be saved.', action: null });
+      }
+      storageFailureRef.current.raffles = true;
     }
-  }, [participants]);
+  }, [raffles]);
+
+  useEffect(() => {
+    localStorage.setItem('activeRaffleId', activeRaffle.id);
+  }, [activeRaffle.id]);
+
+  useEffect(() => {
+    localStorage.setItem('fairMode', String(isFairMode));
+  }, [isFairMode]);
+
+  useEffect(() => {
+    localStorage.setItem('ignoreDiacritics', String(ignoreDiacritics));
+  }, [ignoreDiacritics]);
+
+  useEffect(() => {
+    localStorage.setItem('drawVisualization', visualization);
+  }, [visualization]);
+
+  useEffect(() => {
+    localStorage.setItem('spinSettings', JSON.stringify(spinSettings));
+  }, [spinSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('canvasWheelThreshold', JSON.stringify(canvasWheelThreshold));
+  }, [canvasWheelThreshold]);
+
+  useEffect(() => {
+    if (resolutionPresetId) {
+      localStorage.setItem('resolutionPreset', resolutionPresetId);
+    } else {
+      localStorage.removeItem('resolutionPreset');
+    }
+  }, [resolutionPresetId]);
+
+  // A locked canvas is rescaled whenever the window changes size
+  useEffect(() => {
+    const handleResize = () => setViewportSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('eliminationAutoContinue', String(eliminationAutoContinue));
+    localStorage.setItem('eliminationPauseSeconds', String(eliminationPauseSeconds));
+  }, [eliminationAutoContinue, eliminationPauseSeconds]);
+
+  // In provably fair mode, commit to a fresh seed for the current wheel before every spin
+  useEffect(() => {
+    if (!isFairMode) {
+      setPendingDraw(null);
+      return;
+    }
+    if (isSpinning || wheelParticipants.length < 2) return;
+    if (pendingDraw && pendingDraw.participantsList === serializeParticipants(wheelParticipants)) return;
+
+    let cancelled = false;
+    createFairDraw(wheelParticipants)
+      .then(draw => {
+        if (!cancelled) setPendingDraw(draw);
+      })
+      .catch(error => console.error("Error preparing fair draw commitment", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isFairMode, isSpinning, wheelParticipants, pendingDraw]);
 
   // Effect to handle volume changes when isMuted state changes
   useEffect(() => {
@@ -288,68 +596,115 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const addParticipant = useCallback((name: string) => {
-    const newName = name.trim();
+  // Applies a change to the participant list and records it as an undoable step
+  const commitParticipantChange = useCallback((
+    label: string,
+    nextParticipants: Participant[],
+    options: { nextWheelOrder?: string[]; showToast?: boolean; coalesceKey?: string } = {}
+  ) => {
+    const entry: UndoEntry = {
+      label,
+      raffleId: activeRaffle.id,
+      before: { participants, wheelOrder: wheelParticipants.map(p => p.id) },
+      after: { participants: nextParticipants, wheelOrder: options.nextWheelOrder ?? nextParticipants.map(p => p.id) },
+      timestamp: Date.now(),
+      coalesceKey: options.coalesceKey,
+    };
+    setUndoHistory(prev => pushUndoEntry(prev, entry));
+    if (options.nextWheelOrder) {
+      pendingWheelOrderRef.current = options.nextWheelOrder;
+    }
+    setParticipants(nextParticipants);
+    if (options.showToast) {
+      setToast({ id: Date.now(), message: label, action: 'undo' });
+    }
+  }, [activeRaffle.id, participants, wheelParticipants, setParticipants]);
+
+  const addParticipant = useCallback((name: string, entries: number = 1, details: Pick<ParticipantDraft, 'handle' | 'source' | 'tags'> = {}) => {
+    const newName = cleanName(name);
     // Prevent adding empty names or exact duplicates (case-insensitive)
-    if (!newName || participants.some(p => p.toLowerCase() === newName.toLowerCase())) {
+    if (!newName || participants.some(p => isSameName(p.name, newName, { ignoreDiacritics }))) {
       return;
     }
 
-    const newCoreName = getCoreName(newName);
+    const newCoreName = getCoreName(newName, { ignoreDiacritics });
     
     let lastSimilarIndex = -1;
     // Find the last participant with the same core name
     if (newCoreName) {
         participants.forEach((participant, index) => {
-            if (getCoreName(participant).toLowerCase() === newCoreName.toLowerCase()) {
+            if (getCoreName(participant.name, { ignoreDiacritics }).toLowerCase() === newCoreName.toLowerCase()) {
                 lastSimilarIndex = index;
             }
         });
     }
 
-    setParticipants(prev => {
-        const newList = [...prev];
-        if (lastSimilarIndex !== -1) {
-            // Insert the new participant after the last similar one
-            newList.splice(lastSimilarIndex + 1, 0, newName);
-        } else {
-            // Otherwise, add it to the end of the list
-            newList.push(newName);
-        }
-        return newList;
-    });
-  }, [participants]);
+    // A detected match joins that person's group; it can be split off later from the groups view
+    const newParticipant = createParticipant(
+      { ...details, name: newName, entries },
+      lastSimilarIndex !== -1 ? participants[lastSimilarIndex].personId : crypto.randomUUID(),
+      'manual'
+    );
+
+    const newList = [...participants];
+    if (lastSimilarIndex !== -1) {
+        // Insert the new participant after the last similar one
+        newList.splice(lastSimilarIndex + 1, 0, newParticipant);
+    } else {
+        // Otherwise, add it to the end of the list
+        newList.push(newParticipant);
+    }
+    commitParticipantChange(`Added ${newName}`, newList);
+  }, [participants, commitParticipantChange, ignoreDiacritics]);
   
-  const addMultipleParticipants = useCallback((names: string[]) => {
+  const addMultipleParticipants = useCallback((drafts: ParticipantDraft[]) => {
     const newParticipants = [...participants];
   
-    for (const name of names) {
-      const newName = name.trim();
+    for (const draft of drafts) {
+      const newName = cleanName(draft.name);
       if (!newName) {
         continue; // Skip empty names
       }
   
-      const newCoreName = getCoreName(newName);
+      const newCoreName = getCoreName(newName, { ignoreDiacritics });
       let lastSimilarIndex = -1;
       if (newCoreName) {
         // Find the last index in the *currently building* list
         for (let i = newParticipants.length - 1; i >= 0; i--) {
-          if (getCoreName(newParticipants[i]).toLowerCase() === newCoreName.toLowerCase()) {
+          if (getCoreName(newParticipants[i].name, { ignoreDiacritics }).toLowerCase() === newCoreName.toLowerCase()) {
             lastSimilarIndex = i;
             break;
           }
         }
       }
   
+      const newParticipant = createParticipant(
+        { ...draft, name: newName },
+        lastSimilarIndex !== -1 ? newParticipants[lastSimilarIndex].personId : crypto.randomUUID(),
+        'list'
+      );
       if (lastSimilarIndex !== -1) {
-        newParticipants.splice(lastSimilarIndex + 1, 0, newName);
+        newParticipants.splice(lastSimilarIndex + 1, 0, newParticipant);
       } else {
-        newParticipants.push(newName);
+        newParticipants.push(newParticipant);
       }
     }
   
-    setParticipants(newParticipants);
-  }, [participants]);
+    const addedCount = newParticipants.length - participants.length;
+    if (addedCount === 0) return;
+    commitParticipantChange(`Added ${addedCount} participant${addedCount === 1 ? '' : 's'}`, newParticipants, { showToast: true });
+  }, [participants, commitParticipantChange, ignoreDiacritics]);
+
+  const updateParticipantEntries = useCallback((participantId: string, entries: number) => {
+    const newEntries = Math.max(1, Math.floor(entries) || 1);
+    const participant = participants.find(p => p.id === participantId);
+    if (!participant || participant.entries === newEntries) return;
+    commitParticipantChange(
+      `Changed entries for ${participant.name}`,
+      participants.map(p => p.id === participantId ? { ...p, entries: newEntries } : p),
+      { coalesceKey: `entries-${participantId}` }
+    );
+  }, [participants, commitParticipantChange]);
 
   const handleAddListClick = useCallback(() => {
     // Audio initialization boilerplate
@@ -403,9 +758,11 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const removeParticipant = useCallback((indexToRemove: number) => {
-    setParticipants(prev => prev.filter((_, index) => index !== indexToRemove));
-  }, []);
+  const removeParticipant = useCallback((participantId: string) => {
+    const participant = participants.find(p => p.id === participantId);
+    if (!participant) return;
+    commitParticipantChange(`Removed ${participant.name}`, participants.filter(p => p.id !== participantId), { showToast: true });
+  }, [participants, commitParticipantChange]);
   
   const shuffleWheel = useCallback(() => {
     // --- Audio Logic ---
@@ -457,19 +814,55 @@ const App: React.FC = () => {
     }
     // --- End Audio Logic ---
 
-    setWheelParticipants(prev => {
-      const shuffled = [...prev];
-      for (let i = shuffled.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-      }
-      return shuffled;
+    commitParticipantChange('Shuffled the wheel', [...participants], {
+      nextWheelOrder: secureRandom.shuffle(wheelParticipants).map(p => p.id),
     });
-  }, []);
+  }, [participants, wheelParticipants, commitParticipantChange]);
+
+  // Celebrates the winner and saves them to the history, handing out the given catalog prize
+  const recordWinner = useCallback((
+    finalWinner: Participant,
+    details: Pick<WinnerHistoryEntry, 'participantCount' | 'place' | 'prizeName' | 'seed' | 'commitment'>,
+    prizeId: string | null | undefined
+  ) => {
+    // Play win sound as soon as the wheel stops
+    if (audioRef.current.winSound) {
+        audioRef.current.winSound();
+    }
+    setWinner(finalWinner);
+
+    const newWinnerEntry: WinnerHistoryEntry = {
+      id: crypto.randomUUID(),
+      winnerName: finalWinner.name,
+      raffleTitle: activeRaffle.title,
+      timestamp: Date.now(),
+      ...details,
+    };
+    // Catalog prizes go down in stock as they are awarded
+    const awardedPrize = prizeId ? activeRaffle.prizes.find(p => p.id === prizeId) : undefined;
+    if (awardedPrize) {
+      newWinnerEntry.prizeName = awardedPrize.name;
+      if (awardedPrize.value !== undefined) newWinnerEntry.prizeValue = awardedPrize.value;
+      setPrizes(prev => awardPrize(prev, awardedPrize.id));
+    }
+    setWinnerPrize(awardedPrize ?? null);
+    setWinnerHistory(prev => [...prev, newWinnerEntry]);
+    remoteRef.current?.sendEvent({
+      event: 'winnerChosen',
+      winnerName: newWinnerEntry.winnerName,
+      raffleTitle: newWinnerEntry.raffleTitle,
+      prizeName: newWinnerEntry.prizeName,
+      timestamp: newWinnerEntry.timestamp,
+    });
+  }, [activeRaffle, setPrizes]);
 
   const handleSpin = useCallback(() => {
     if (wheelParticipants.length < 2 || isSpinning || isReturning) return;
 
+    // A fair draw can only start once the commitment for this exact wheel has been shown
+    const fairDraw = isFairMode ? pendingDraw : null;
+    if (isFairMode && (!fairDraw || fairDraw.participantsList !== serializeParticipants(wheelParticipants))) return;
+
     setPreSpinRotation(rotation);
 
     if (!audioRef.current.context) {
@@ -717,75 +1110,85 @@ const App: React.FC = () => {
     
     setIsSpinning(true);
     setWinner(null);
+    setWinnerPrize(null);
+    remoteRef.current?.sendEvent({ event: 'spinStarted', raffleTitle: activeRaffle.title, participantCount: wheelParticipants.length });
+    if (fairDraw) {
+      // The seed is spent once the spin starts; the next spin gets a new commitment.
+      setPendingDraw(null);
+      setRevealedDraw(null);
+    }
+    activeFairDrawRef.current = fairDraw;
 
-    const winnerIndex = Math.floor(Math.random() * wheelParticipants.length);
-    const numParticipants = wheelParticipants.length;
-    const segmentAngle = 360 / numParticipants;
-
-    const winnerAngle = segmentAngle * winnerIndex + segmentAngle / 2;
-    const targetStopAngle = (360 - winnerAngle + 360) % 360;
+    const winnerIndex = fairDraw ? fairDraw.winnerIndex : pickWeightedIndex(wheelParticipants);
+    // Keep the landing spot inside the winner's own (weighted) arc
+    const offsetFraction = fairDraw ? fairDraw.offsetFraction : secureRandom.randomFloat();
+    const plan = (spinSettings.motion === 'physics' ? planPhysicsSpin : planSpin)(
+      getSegmentArcs(wheelParticipants), winnerIndex, offsetFraction, rotation, spinSettings
+    );
 
-    const fullRotations = 12 * 360;
-    const randomOffset = Math.random() * segmentAngle * 0.8 - (segmentAngle * 0.4);
-    const targetRotation = fullRotations + targetStopAngle + randomOffset;
-    
-    const duration = 12000;
     let startTime: number | null = null;
-    const startRotation = rotation % 360;
-    
-    const easeOutExpo = (x: number): number => x === 1 ? 1 : 1 - Math.pow(2, -10 * x);
-    
-    let lastTickAngle = startRotation;
+    let lastElapsedTime = 0;
 
     const spin = (timestamp: number) => {
         if (!startTime) startTime = timestamp;
         const elapsedTime = timestamp - startTime;
 
-        if (elapsedTime >= duration) {
+        if (isSpinFinished(plan, elapsedTime)) {
             const finalWinner = wheelParticipants[winnerIndex];
-            setRotation(targetRotation);
-            
-            // Play win sound as soon as the wheel stops
-            if (audioRef.current.winSound) {
-                audioRef.current.winSound();
-            }
-
-            // Show winner immediately
-            setWinner(finalWinner);
+            setRotation(plan.targetRotation);
+            setPointerDeflection(null);
             setIsSpinning(false);
-            
-            const newWinnerEntry = {
-              winnerName: finalWinner,
-              raffleTitle: 'Prize Wheel Raffle',
-              timestamp: Date.now(),
-            };
-            setWinnerHistory(prev => [...prev, newWinnerEntry]);
-
             if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current);
             animationFrameId.current = null;
+
+            const details: Pick<WinnerHistoryEntry, 'participantCount' | 'place' | 'prizeName' | 'seed' | 'commitment'> = {
+              participantCount: wheelParticipants.length,
+            };
+            if (fairDraw) {
+              details.seed = fairDraw.seed;
+              details.commitment = fairDraw.commitment;
+              setRevealedDraw({ ...fairDraw, winnerName: finalWinner.name });
+              activeFairDrawRef.current = null;
+            }
+
+            // In elimination mode the participant the wheel lands on is knocked out instead of winning
+            if (elimination?.status === 'running') {
+              if (audioRef.current.stopSound) audioRef.current.stopSound();
+              setElimination(prev => prev && { ...prev, eliminating: finalWinner });
+              return;
+            }
+
+            // In a multi-winner draw this spin decides the next open place on the podium
+            const tier = multiDraw?.status === 'running' ? multiDraw.tiers[multiDraw.results.length] : undefined;
+            if (tier) {
+              details.place = tier.place;
+              if (tier.prizeName) details.prizeName = tier.prizeName;
+              setMultiDraw(prev => {
+                if (!prev) return prev;
+                const results = [...prev.results, finalWinner];
+                return { ...prev, results, status: results.length >= prev.tiers.length ? 'finished' : prev.status };
+              });
+            }
+            recordWinner(finalWinner, details, tier ? tier.prizeId : activeRaffle.currentPrizeId);
             return;
         }
 
-        const progress = elapsedTime / duration;
-        const easedProgress = easeOutExpo(progress);
-        const currentRotation = startRotation + (targetRotation - startRotation) * easedProgress;
-        
-        const currentAngle = Math.floor(currentRotation / segmentAngle);
-        const lastAngle = Math.floor(lastTickAngle / segmentAngle);
-
-        if (currentAngle > lastAngle) {
+        // Tick whenever a segment boundary passes under the pointer
+        const ticks = getSpinTicks(plan, lastElapsedTime, elapsedTime);
+        if (ticks.length > 0) {
             if(audioRef.current.tickSound) audioRef.current.tickSound();
-            setTickCount(c => c + 1);
+            setTickCount(c => c + ticks.length);
         }
-        
-        lastTickAngle = currentRotation;
-        setRotation(currentRotation);
+
+        lastElapsedTime = elapsedTime;
+        setRotation(getSpinRotation(plan, elapsedTime));
+        if (plan.trajectory) setPointerDeflection(getPointerDeflection(plan, elapsedTime));
         animationFrameId.current = requestAnimationFrame(spin);
     };
 
     animationFrameId.current = requestAnimationFrame(spin);
 
-  }, [wheelParticipants, isSpinning, rotation, isReturning]);
+  }, [wheelParticipants, isSpinning, rotation, isReturning, isFairMode, pendingDraw, activeRaffle.currentPrizeId, activeRaffle.title, multiDraw, elimination, recordWinner, spinSettings]);
 
   const animateWheelToStart = useCallback((onComplete?: () => void) => {
     if (animationFrameId.current) {
@@ -794,6 +1197,7 @@ const App: React.FC = () => {
     }
   
     setIsReturning(true);
+    setPointerDeflection(null);
 
     // Animate the wheel back to its starting position
     const startReturnRotation = rotation;
@@ -838,6 +1242,16 @@ const App: React.FC = () => {
     if (audioRef.current.stopSound) {
       audioRef.current.stopSound();
     }
+
+    // Reveal aborted fair draws too, so stopping a spin can't be used to hide an unwanted result
+    if (activeFairDrawRef.current) {
+      setRevealedDraw({ ...activeFairDrawRef.current, winnerName: null });
+      activeFairDrawRef.current = null;
+    }
+
+    // Stopping a spin also ends any multi-winner draw in progress
+    setMultiDraw(prev => prev && prev.status === 'running' ? { ...prev, status: 'stopped', awaitingSpin: false } : prev);
+    setElimination(prev => prev && prev.status === 'running' ? { ...prev, status: 'stopped' } : prev);
   
     animateWheelToStart(() => {
       setIsSpinning(false); // Officially end the spin state
@@ -850,19 +1264,139 @@ const App: React.FC = () => {
     animateWheelToStart();
   }, [animateWheelToStart, isReturning]);
 
-  const removeWinnerEntries = useCallback((winnerName: string | null) => {
-    if (!winnerName) return;
+  const removeWinnerEntries = useCallback((winningParticipant: Participant | null) => {
+    if (!winningParticipant) return;
+
+    // Remove every entry that belongs to the same person, as grouped in the participant panel
+    const remaining = participants.filter(p => p.personId !== winningParticipant.personId);
+    const removedCount = participants.length - remaining.length;
+    if (removedCount > 0) {
+      commitParticipantChange(
+        `Removed winner ${winningParticipant.name}${removedCount > 1 ? ` (${removedCount} entries)` : ''}`,
+        remaining,
+        { showToast: true }
+      );
+    }
+    
+    resetRaffle();
+  }, [resetRaffle, participants, commitParticipantChange]);
 
-    const coreName = getCoreName(winnerName);
+  // Spins asked for by the operator (wheel clicks, follower windows), as opposed to scheduled ones
+  const handleManualSpin = useCallback(() => {
+    if (!isSpinScheduled) handleSpin();
+  }, [isSpinScheduled, handleSpin]);
 
-    if (coreName) {
-        setParticipants(prev => 
-            prev.filter(p => getCoreName(p).toLowerCase() !== coreName.toLowerCase())
-        );
+  const startMultiDraw = useCallback((tiers: PrizeTier[]) => {
+    setIsMultiDrawSetupOpen(false);
+    if (isSpinning || isReturning || tiers.length === 0) return;
+    setWinner(null);
+    setMultiDraw({ tiers, results: [], status: 'running', awaitingSpin: true });
+  }, [isSpinning, isReturning]);
+
+  // Between spins: show the winner for a moment, then take them out of the pool for the next place
+  useEffect(() => {
+    if (multiDraw?.status !== 'running' || multiDraw.awaitingSpin || !winner) return;
+    const timer = setTimeout(() => {
+      setWheelParticipants(prev => prev.filter(p => p.personId !== winner.personId));
+      setWinner(null);
+      setMultiDraw(prev => prev && { ...prev, awaitingSpin: true });
+    }, MULTI_DRAW_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [multiDraw, winner]);
+
+  // Start the next spin as soon as the wheel is ready (and, in fair mode, its commitment is shown)
+  useEffect(() => {
+    if (multiDraw?.status !== 'running' || !multiDraw.awaitingSpin || isSpinning || isReturning) return;
+    if (new Set(wheelParticipants.map(p => p.personId)).size < 2) {
+      // Nobody left to compete for the remaining places
+      setMultiDraw(prev => prev && { ...prev, status: 'finished', awaitingSpin: false });
+      return;
     }
-    
+    if (isFairMode && (!pendingDraw || pendingDraw.participantsList !== serializeParticipants(wheelParticipants))) return;
+    setMultiDraw(prev => prev && { ...prev, awaitingSpin: false });
+    handleSpin();
+  }, [multiDraw, isSpinning, isReturning, wheelParticipants, isFairMode, pendingDraw, handleSpin]);
+
+  const finishMultiDraw = useCallback((removeWinners: boolean) => {
+    if (!multiDraw) return;
+    if (removeWinners && multiDraw.results.length > 0) {
+      const winnerPersonIds = new Set(multiDraw.results.map(p => p.personId));
+      const remaining = participants.filter(p => !winnerPersonIds.has(p.personId));
+      commitParticipantChange(`Removed ${multiDraw.results.length} podium winners`, remaining, { showToast: true });
+    } else {
+      // Bring the drawn winners back onto the wheel
+      setWheelParticipants(participants);
+    }
+    setMultiDraw(null);
     resetRaffle();
-  }, [resetRaffle]);
+  }, [multiDraw, participants, commitParticipantChange, resetRaffle]);
+
+  const startElimination = useCallback(() => {
+    if (isSpinning || isReturning || new Set(wheelParticipants.map(p => p.personId)).size < 2) return;
+    setWinner(null);
+    setElimination({ order: [], eliminating: null, status: 'running', startingCount: wheelParticipants.length });
+  }, [isSpinning, isReturning, wheelParticipants]);
+
+  // Once the hit segment has faded out, take that person off the wheel; the last one left wins
+  useEffect(() => {
+    const eliminated = elimination?.eliminating;
+    if (!elimination || !eliminated) return;
+    const timer = setTimeout(() => {
+      const remaining = wheelParticipants.filter(p => p.personId !== eliminated.personId);
+      const isOver = new Set(remaining.map(p => p.personId)).size <= 1;
+      setWheelParticipants(remaining);
+      setElimination(prev => prev && {
+        ...prev,
+        order: [...prev.order, eliminated],
+        eliminating: null,
+        status: isOver ? 'finished' : prev.status,
+      });
+      if (isOver && remaining.length > 0) {
+        recordWinner(remaining[0], { participantCount: elimination.startingCount }, activeRaffle.currentPrizeId);
+      }
+    }, ELIMINATION_ANIMATION_MS);
+    return () => clearTimeout(timer);
+  }, [elimination, wheelParticipants, recordWinner, activeRaffle.currentPrizeId]);
+
+  // With auto-continue on, spin again after the configured pause (the first spin starts right away)
+  useEffect(() => {
+    if (elimination?.status !== 'running' || elimination.eliminating || !eliminationAutoContinue) return;
+    if (isSpinning || isReturning || winner) return;
+    if (isFairMode && (!pendingDraw || pendingDraw.participantsList !== serializeParticipants(wheelParticipants))) return;
+    const timer = setTimeout(handleSpin, elimination.order.length > 0 ? eliminationPauseSeconds * 1000 : 0);
+    return () => clearTimeout(timer);
+  }, [elimination, eliminationAutoContinue, eliminationPauseSeconds, isSpinning, isReturning, winner, isFairMode, pendingDraw, wheelParticipants, handleSpin]);
+
+  const finishElimination = useCallback(() => {
+    // Everyone who was knocked out goes back on the wheel
+    setWheelParticipants(participants);
+    setElimination(null);
+    resetRaffle();
+  }, [participants, resetRaffle]);
+
+  // Moves every entry of one person into another person's group
+  const mergePeople = useCallback((sourcePersonId: string, targetPersonId: string) => {
+    if (sourcePersonId === targetPersonId) return;
+    const source = participants.find(p => p.personId === sourcePersonId);
+    const target = participants.find(p => p.personId === targetPersonId);
+    if (!source || !target) return;
+    commitParticipantChange(
+      `Merged ${source.name} into ${target.name}`,
+      participants.map(p => p.personId === sourcePersonId ? { ...p, personId: targetPersonId } : p),
+      { showToast: true }
+    );
+  }, [participants, commitParticipantChange]);
+
+  // Gives a single entry its own identity, separating it from the rest of its group
+  const splitParticipant = useCallback((participantId: string) => {
+    const participant = participants.find(p => p.id === participantId);
+    if (!participant) return;
+    commitParticipantChange(
+      `Split off ${participant.name}`,
+      participants.map(p => p.id === participantId ? { ...p, personId: crypto.randomUUID() } : p),
+      { showToast: true }
+    );
+  }, [participants, commitParticipantChange]);
 
   const clearAll = useCallback(() => {
     // --- Audio Logic ---
@@ -934,14 +1468,381 @@ const App: React.FC = () => {
         audioRef.current.eraserSound();
     }
     // --- End Audio Logic ---
-    setParticipants([]);
+    if (participants.length > 0) {
+      commitParticipantChange(`Cleared ${participants.length} participant${participants.length === 1 ? '' : 's'}`, [], { showToast: true });
+    }
+    setWinner(null);
+  }, [participants, commitParticipantChange]);
+
+  const applyUndoStep = useCallback((direction: 'undo' | 'redo') => {
+    if (isListLocked) return;
+    const stack = direction === 'undo' ? undoHistory.undo : undoHistory.redo;
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
+
+    const snapshot = direction === 'undo' ? entry.before : entry.after;
+    pendingWheelOrderRef.current = snapshot.wheelOrder;
+    // A fresh array makes the wheel re-sync even when only the wheel order changed
+    setRaffles(prev => prev.map(r => r.id === entry.raffleId ? { ...r, participants: [...snapshot.participants] } : r));
+    setActiveRaffleId(entry.raffleId);
     setWinner(null);
+
+    setUndoHistory(prev => direction === 'undo'
+      ? { undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }
+      : { undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) });
+    setToast({
+      id: Date.now(),
+      message: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${entry.label}`,
+      action: direction === 'undo' ? 'redo' : 'undo',
+    });
+  }, [isListLocked, undoHistory]);
+
+  const undo = useCallback(() => applyUndoStep('undo'), [applyUndoStep]);
+  const redo = useCallback(() => applyUndoStep('redo'), [applyUndoStep]);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) undo and redo list edits, unless a text field has focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTypingTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const deleteWinnerEntry = useCallback((entryId: string) => {
+    setWinnerHistory(prev => prev.filter(entry => entry.id !== entryId));
+  }, []);
+
+  const updateWinnerNote = useCallback((entryId: string, note: string) => {
+    const trimmedNote = note.trim();
+    setWinnerHistory(prev => prev.map(entry => entry.id === entryId ? { ...entry, note: trimmedNote || undefined } : entry));
+  }, []);
+
+  // Merges imported entries into the history, skipping any that are already present
+  const importWinnerHistory = useCallback((entries: WinnerHistoryEntry[]): number => {
+    const existingIds = new Set(winnerHistory.map(entry => entry.id));
+    const newEntries = entries.filter(entry => !existingIds.has(entry.id));
+    if (newEntries.length > 0) {
+      setWinnerHistory(prev => [...prev, ...newEntries].sort((a, b) => a.timestamp - b.timestamp));
+    }
+    return newEntries.length;
+  }, [winnerHistory]);
+
+  const selectRaffle = useCallback((raffleId: string) => {
+    if (isListLocked) return;
+    setActiveRaffleId(raffleId);
+    setWinner(null);
+  }, [isListLocked]);
+
+  const createNewRaffle = useCallback((title: string) => {
+    if (isListLocked) return;
+    const newRaffle = createRaffle(title.trim() || DEFAULT_RAFFLE_TITLE);
+    setRaffles(prev => [...prev, newRaffle]);
+    setActiveRaffleId(newRaffle.id);
+    setWinner(null);
+  }, [isListLocked]);
+
+  const renameRaffle = useCallback((raffleId: string, title: string) => {
+    const newTitle = title.trim();
+    if (!newTitle) return;
+    setRaffles(prev => prev.map(r => r.id === raffleId ? { ...r, title: newTitle } : r));
+  }, []);
+
+  const deleteRaffle = useCallback((raffleId: string) => {
+    if (isListLocked) return;
+    setRaffles(prev => {
+      const remaining = prev.filter(r => r.id !== raffleId);
+      // Always keep at least one raffle around to hold the participant list
+      return remaining.length > 0 ? remaining : [createRaffle(DEFAULT_RAFFLE_TITLE)];
+    });
+    setUndoHistory(prev => removeRaffleFromUndoHistory(prev, raffleId));
+    if (raffleId === activeRaffle.id) {
+      setActiveRaffleId('');
+      setWinner(null);
+    }
+  }, [isListLocked, activeRaffle.id]);
+
+  useEffect(() => {
+    localStorage.setItem('theme', JSON.stringify(theme));
+    applyThemeToDocument(theme);
+    document.title = theme.title;
+  }, [theme]);
+
+  // During a multi-winner draw the overlay names the place (and prize) just won
+  const winnerTier = multiDraw && winner ? multiDraw.tiers[multiDraw.results.findIndex(p => p.id === winner.id)] : undefined;
+  const winnerCaption = winnerTier
+    ? `${formatPlace(winnerTier.place)} place${winnerTier.prizeName ? ` — ${winnerTier.prizeName}` : ''}`
+    : winnerPrize
+      ? `Winner of ${winnerPrize.name}${winnerPrize.value !== undefined ? ` (${formatPrizeValue(winnerPrize.value)})` : ''}`
+      : elimination && winner
+        ? 'Last one standing!'
+        : undefined;
+
+  // Mirror the stage to audience and overlay windows; this window alone decides every result
+  const displayState = useMemo<DisplayState>(() => ({
+    theme,
+    participants: wheelParticipants,
+    originalParticipants: participants,
+    winner,
+    winnerCaption,
+    winnerPrizeImageUrl: winner ? winnerPrize?.imageUrl : undefined,
+    eliminatingPersonId: elimination?.eliminating?.personId ?? null,
+    visualization,
+    isSpinning,
+    isReturning,
+    wheelStartHue,
+    canvasWheelThreshold,
+  }), [wheelParticipants, participants, winner, winnerCaption, winnerPrize, elimination, visualization, isSpinning, isReturning, wheelStartHue, canvasWheelThreshold, theme]);
+  const displayStateRef = useRef(displayState);
+  displayStateRef.current = displayState;
+  const frameRef = useRef({ rotation, tickCount, pointerDeflection });
+  frameRef.current = { rotation, tickCount, pointerDeflection };
+  const syncCommandsRef = useRef({ spin: handleManualSpin, stop: handleStopSpin });
+  syncCommandsRef.current = { spin: handleManualSpin, stop: handleStopSpin };
+
+  // Followers in this browser listen on the BroadcastChannel; those elsewhere, like an OBS
+  // browser source, through the control API socket
+  const isSyncLeaderRef = useRef(false);
+  const postToFollowers = useCallback((message: SyncMessage) => {
+    if (!isSyncLeaderRef.current) return;
+    postSyncMessage(syncChannelRef.current, message);
+    remoteRef.current?.sendSync(message);
+  }, []);
+  const postStageToFollowers = useCallback(() => {
+    postToFollowers({ type: 'state', state: displayStateRef.current });
+    postToFollowers({ type: 'frame', ...frameRef.current });
+  }, [postToFollowers]);
+  const handleFollowerMessage = useCallback((message: SyncMessage) => {
+    if (!isSyncLeaderRef.current) return;
+    if (message.type === 'hello') {
+      postStageToFollowers();
+    } else if (message.type === 'command') {
+      syncCommandsRef.current[message.command]();
+    }
+  }, [postStageToFollowers]);
+
+  // Only the leading control window talks to followers; others wait until it closes
+  useEffect(() => runAsSyncLeader(() => {
+    isSyncLeaderRef.current = true;
+    const channel = openSyncChannel();
+    syncChannelRef.current = channel;
+    if (channel) channel.onmessage = (event: MessageEvent<SyncMessage>) => handleFollowerMessage(event.data);
+    // Followers already open switch over to this window's stage when it takes the lead
+    postStageToFollowers();
+    return () => {
+      isSyncLeaderRef.current = false;
+      channel?.close();
+      syncChannelRef.current = null;
+    };
+  }), [handleFollowerMessage, postStageToFollowers]);
+
+  useEffect(() => {
+    postToFollowers({ type: 'state', state: displayState });
+  }, [displayState, postToFollowers]);
+
+  useEffect(() => {
+    postToFollowers({ type: 'frame', rotation, tickCount, pointerDeflection });
+  }, [rotation, tickCount, pointerDeflection, postToFollowers]);
+
+  // Commands from the local control API run exactly like the matching buttons; those the buttons
+  // wouldn't allow right now are refused with an error to the clients
+  const runRemoteCommand = (command: RemoteCommand) => {
+    const refuse = (reason: string) => remoteRef.current?.sendError(`Can't ${command.command} ${reason}.`);
+    const drawReason = multiDraw ? 'during a multi-winner draw' : elimination ? 'during an elimination round' : null;
+    switch (command.command) {
+      case 'spin':
+        if (drawReason) {
+          refuse(drawReason);
+        } else {
+          handleSpin();
+        }
+        break;
+      case 'stop': handleStopSpin(); break;
+      case 'reset':
+        if (drawReason) {
+          refuse(drawReason);
+        } else if (winner) {
+          resetRaffle();
+        }
+        break;
+      case 'clear':
+        if (isListLocked) {
+          refuse(drawReason ?? 'while the wheel is turning');
+        } else {
+          clearAll();
+        }
+        break;
+      case 'add':
+        if (isListLocked) {
+          refuse(drawReason ?? 'while the wheel is turning');
+        } else {
+          addParticipant(command.name, command.entries);
+        }
+        break;
+    }
+  };
+  const remoteCommandRef = useRef(runRemoteCommand);
+  remoteCommandRef.current = runRemoteCommand;
+
+  useEffect(() => {
+    localStorage.setItem('controlApiToken', remoteToken);
+    if (!remoteToken) {
+      setRemoteStatus(null);
+      return;
+    }
+    const connection = connectRemoteControl(remoteToken, command => remoteCommandRef.current(command), handleFollowerMessage, setRemoteStatus);
+    remoteRef.current = connection;
+    return () => {
+      connection.close();
+      remoteRef.current = null;
+    };
+  }, [remoteToken, remoteAttempt]);
+
+  // Display windows on the control API get the stage as soon as this window connects
+  useEffect(() => {
+    if (remoteStatus === 'connected') postStageToFollowers();
+  }, [remoteStatus, postStageToFollowers]);
+
+  useEffect(() => {
+    remoteRef.current?.sendEvent({
+      event: 'listChanged',
+      raffleTitle: activeRaffle.title,
+      participants: participants.map(({ name, entries }) => ({ name, entries })),
+    });
+  }, [participants, activeRaffle.title, remoteStatus]);
+
+  useEffect(() => {
+    localStorage.setItem('keyboardShortcuts', JSON.stringify(shortcuts));
+  }, [shortcuts]);
+
+  // Shortcuts do what the matching buttons do, and only when those buttons would be available
+  const runShortcut = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || e.repeat || isShortcutHelpOpen || isThemeEditorOpen || isMultiDrawSetupOpen || isTypingTarget(e.target)) return;
+    const key = getShortcutKey(e);
+    const action = key ? findShortcutAction(shortcuts, key) : null;
+    if (!action) return;
+    e.preventDefault();
+    const canUseWinnerActions = !!winner && !multiDraw && !elimination;
+    switch (action) {
+      case 'spinOrStop':
+        // A stray key press must not end an automatic draw, so only the wheel stops those
+        if (isSpinning) {
+          if (!multiDraw && !elimination) handleStopSpin();
+        } else {
+          handleManualSpin();
+        }
+        break;
+      case 'reset': if (canUseWinnerActions) resetRaffle(); break;
+      case 'removeWinner': if (canUseWinnerActions) removeWinnerEntries(winner); break;
+      case 'fullscreen': toggleFullScreen(); break;
+      case 'mute': toggleMute(); break;
+      case 'shuffle': if (!isListLocked) shuffleWheel(); break;
+      case 'help': setIsShortcutHelpOpen(true); break;
+    }
+  };
+  const shortcutRef = useRef(runShortcut);
+  shortcutRef.current = runShortcut;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  const mainTitle = "Score Milk Prize Wheel";
+  const changeRemoteToken = useCallback((token: string) => {
+    setRemoteToken(token);
+    setRemoteAttempt(prev => prev + 1);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('chatEntrySettings', JSON.stringify(chatSettings));
+  }, [chatSettings]);
+
+  const logChatActivity = useCallback((line: string) => {
+    setChatActivity(prev => [line, ...prev].slice(0, 5));
+  }, []);
+
+  const setChatEntryOpen = useCallback((open: boolean) => {
+    // Every new round of entries starts with a clean slate of who has joined
+    if (open) chatJoinedIdsRef.current = new Set();
+    setIsChatEntryOpen(open);
+    logChatActivity(open ? 'Entries opened' : 'Entries closed');
+  }, [logChatActivity]);
+
+  const handleChatMessage = (message: ChatMessage) => {
+    const action = getChatEntryAction(message, chatSettings, isChatEntryOpen, chatJoinedIdsRef.current);
+    switch (action.type) {
+      case 'open': setChatEntryOpen(true); break;
+      case 'close': setChatEntryOpen(false); break;
+      case 'reject': logChatActivity(`${message.displayName} not entered: ${action.reason}`); break;
+      case 'enter':
+        chatJoinedIdsRef.current.add(message.userId);
+        setPendingChatJoins(prev => [...prev, message]);
+        break;
+    }
+  };
+  const chatMessageRef = useRef(handleChatMessage);
+  chatMessageRef.current = handleChatMessage;
+
+  useEffect(() => {
+    if (chatAttempt === 0 || !chatSettings.channel.trim()) {
+      setChatStatus(null);
+      return;
+    }
+    const connection = connectIrcChat(chatSettings, message => chatMessageRef.current(message), setChatStatus);
+    return () => connection.close();
+  }, [chatSettings, chatAttempt]);
+
+  // Joins go in one at a time through addParticipant, so each one sees the list the previous one made
+  useEffect(() => {
+    if (pendingChatJoins.length === 0 || isSpinning || isReturning || multiDraw || elimination) return;
+    const [next, ...rest] = pendingChatJoins;
+    addParticipant(next.displayName, 1, { handle: `@${next.login}`, source: 'chat' });
+    logChatActivity(`${next.displayName} joined`);
+    setPendingChatJoins(rest);
+  }, [pendingChatJoins, isSpinning, isReturning, multiDraw, elimination, addParticipant, logChatActivity]);
+
+  const connectChat = useCallback((settings: ChatEntrySettings) => {
+    setChatSettings(settings);
+    setChatAttempt(prev => prev + 1);
+  }, []);
+
+  const disconnectChat = useCallback(() => {
+    setChatAttempt(0);
+    setIsChatEntryOpen(false);
+    setPendingChatJoins([]);
+  }, []);
+
+  const openAudienceWindow = useCallback(() => {
+    window.open(`${window.location.pathname}?display=1`, 'prize-wheel-audience', 'popup,width=1280,height=720');
+  }, []);
+
+  const resolutionPreset = getResolutionPreset(resolutionPresetId);
+  const layout = LAYOUT_CLASSES[resolutionPreset ? (isPortraitPreset(resolutionPreset) ? 'portrait' : 'landscape') : 'responsive'];
+  const canvasFit = resolutionPreset ? getCanvasFit(resolutionPreset, viewportSize.width, viewportSize.height) : null;
 
   return (
-    <div className="w-screen h-screen bg-transparent flex flex-col overflow-hidden">
+    <div
+      className={`${resolutionPreset ? 'absolute' : 'w-screen h-screen'} bg-transparent flex flex-col overflow-hidden`}
+      style={resolutionPreset && canvasFit ? {
+        width: resolutionPreset.width,
+        height: resolutionPreset.height,
+        left: canvasFit.left,
+        top: canvasFit.top,
+        transform: `scale(${canvasFit.scale})`,
+        transformOrigin: '0 0',
+      } : undefined}
+    >
       <div className="fixed top-4 left-4 z-50 flex items-center gap-3">
         <button
           type="button"
@@ -962,63 +1863,211 @@ const App: React.FC = () => {
           {isFullscreen ? <ExitFullScreenIcon /> : <EnterFullScreenIcon />}
           <span>{isFullscreen ? 'Exit' : 'Full Screen'}</span>
         </button>
+        <button
+          type="button"
+          onClick={() => setVisualization(prev => prev === 'wheel' ? 'cage' : 'wheel')}
+          disabled={isSpinning || isReturning}
+          className="bg-amber-500 hover:bg-amber-600 text-white font-bold py-2 px-4 rounded-full flex items-center justify-center transition-all duration-200 shadow-lg hover:scale-110 disabled:opacity-50 disabled:hover:scale-100"
+          aria-label={visualization === 'wheel' ? 'Switch to bingo cage' : 'Switch to wheel'}
+          title={visualization === 'wheel' ? 'Show as Bingo Cage' : 'Show as Wheel'}
+        >
+          {visualization === 'wheel' ? 'Cage' : 'Wheel'}
+        </button>
+        <button
+          type="button"
+          onClick={openAudienceWindow}
+          className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-full flex items-center justify-center transition-all duration-200 shadow-lg hover:scale-110"
+          title="Open a window for the audience that mirrors this one"
+        >
+          Audience Window
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsThemeEditorOpen(true)}
+          className="bg-teal-600 hover:bg-teal-700 text-white font-bold py-2 px-4 rounded-full flex items-center justify-center transition-all duration-200 shadow-lg hover:scale-110"
+          title="Change the logo, title, fonts and colours"
+        >
+          Theme
+        </button>
+        <ResolutionSwitcher presetId={resolutionPreset?.id ?? null} onChange={setResolutionPresetId} />
+        <button
+          type="button"
+          onClick={() => setIsShortcutHelpOpen(true)}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold w-10 h-10 rounded-full flex items-center justify-center transition-all duration-200 shadow-lg hover:scale-110"
+          aria-label="Keyboard shortcuts"
+          title="Keyboard Shortcuts"
+        >
+          ?
+        </button>
       </div>
 
-      <div className="bg-gray-900/0 text-gray-100 font-sans flex flex-col w-full h-full">
-        <div className="p-4 sm:p-6 lg:p-8 flex flex-col flex-grow h-full overflow-hidden">
+      <div className="bg-gray-900/0 text-gray-100 flex flex-col w-full h-full">
+        <div className={`${layout.page} flex flex-col flex-grow h-full overflow-hidden`}>
           <header className="flex-shrink-0 flex justify-center items-center mb-4 gap-6">
-            <img src={logoUrl} alt="Scoremilk Logo" className="w-20 h-20" />
+            {theme.logoUrl && <img src={theme.logoUrl} alt={`${theme.name} logo`} className="w-20 h-20 object-contain" />}
             <div className="text-left">
-              <h1 className="text-4xl sm:text-5xl lg:text-6xl font-bold">
-                {mainTitle.split('').map((char, index) => (
-                  <span
-                    key={index}
-                    className="wave-letter"
-                    style={{ animationDelay: `${index * 0.1}s` }}
-                  >
-                    {char === ' ' ? '\u00A0' : char}
-                  </span>
-                ))}
-              </h1>
-              <p className="mt-2 text-lg" style={{ color: '#e1e1e1' }}>Want your name here? Join Score Milk Tournaments and Engage on Social Media!</p>
+              <WaveTitle text={theme.title} className={`${layout.title} font-bold`} style={{ fontFamily: theme.titleFont }} />
+              {theme.subtitle && <p className="mt-2 text-lg" style={{ color: theme.subtitleColor }}>{theme.subtitle}</p>}
             </div>
           </header>
           
-          {winner && <Confetti />}
-
-          <main className="flex-1 min-h-0 flex flex-col xl:flex-row gap-4 max-w-full w-full mx-auto">
-            <div className="h-2/5 xl:h-auto xl:w-1/3 xl:max-w-md bg-black/50 rounded-xl p-6 shadow-lg flex flex-col min-h-0">
+          {winner && <Confetti colors={theme.confettiColors} />}
+          {isMultiDrawSetupOpen && (
+            <MultiDrawSetupModal
+              maxWinners={Math.max(1, new Set(wheelParticipants.map(p => p.personId)).size - 1)}
+              prizes={activeRaffle.prizes}
+              onStart={startMultiDraw}
+              onClose={() => setIsMultiDrawSetupOpen(false)}
+            />
+          )}
+          {isThemeEditorOpen && (
+            <ThemeEditorModal
+              theme={theme}
+              onChange={setTheme}
+              onClose={() => setIsThemeEditorOpen(false)}
+              isCanvasLocked={!!resolutionPreset}
+            />
+          )}
+          {isShortcutHelpOpen && (
+            <ShortcutHelpModal
+              bindings={shortcuts}
+              onChange={setShortcuts}
+              onClose={() => setIsShortcutHelpOpen(false)}
+            />
+          )}
+          {toast && (
+            <UndoToast
+              toastId={toast.id}
+              message={toast.message}
+              actionLabel={toast.action === 'undo' ? 'Undo' : 'Redo'}
+              onAction={toast.action === null ? undefined : toast.action === 'undo' ? undo : redo}
+              actionDisabled={isListLocked}
+              onDismiss={dismissToast}
+            />
+          )}
+
+          <main className={`flex-1 min-h-0 flex ${layout.main} gap-4 max-w-full w-full mx-auto`}>
+            <div className={`${layout.panel} bg-black/50 rounded-xl p-6 shadow-lg flex flex-col min-h-0`}>
+              <RaffleManager
+                raffles={raffles}
+                activeRaffleId={activeRaffle.id}
+                onSelect={selectRaffle}
+                onCreate={createNewRaffle}
+                onRename={renameRaffle}
+                onDelete={deleteRaffle}
+                disabled={isListLocked}
+              />
               <ParticipantInput 
                 onAddParticipant={addParticipant} 
                 onAddMultipleParticipants={addMultipleParticipants}
-                disabled={isSpinning} 
+                disabled={isSpinning || !!multiDraw || !!elimination} 
                 winnerHistory={winnerHistory}
+                onDeleteWinnerEntry={deleteWinnerEntry}
+                onUpdateWinnerNote={updateWinnerNote}
+                onImportWinnerHistory={importWinnerHistory}
                 onShuffle={shuffleWheel}
+                isCanvasLocked={!!resolutionPreset}
                 onAddListClick={handleAddListClick}
+                onMultiDrawClick={() => setIsMultiDrawSetupOpen(true)}
+                onEliminationClick={startElimination}
+              />
+              <FairDrawPanel
+                isFairMode={isFairMode}
+                onToggleFairMode={() => setIsFairMode(prev => !prev)}
+                pendingDraw={pendingDraw}
+                revealedDraw={revealedDraw}
+                disabled={isSpinning}
+              />
+              <SpinSettingsPanel
+                settings={spinSettings}
+                onChange={setSpinSettings}
+                disabled={isSpinning || isReturning}
+              />
+              <WheelRendererPanel
+                threshold={canvasWheelThreshold}
+                onChange={setCanvasWheelThreshold}
+                participantCount={wheelParticipants.length}
+              />
+              <PrizePanel
+                prizes={activeRaffle.prizes}
+                currentPrizeId={activeRaffle.currentPrizeId}
+                onSelectPrize={selectPrize}
+                onChangePrizes={setPrizes}
+                disabled={isSpinning || !!multiDraw || !!elimination}
+              />
+              <RemoteControlPanel
+                token={remoteToken}
+                onChangeToken={changeRemoteToken}
+                status={remoteStatus}
+              />
+              <ChatEntryPanel
+                settings={chatSettings}
+                status={chatStatus}
+                isConnected={chatAttempt > 0}
+                onConnect={connectChat}
+                onDisconnect={disconnectChat}
+                isEntryOpen={isChatEntryOpen}
+                onToggleEntryOpen={() => setChatEntryOpen(!isChatEntryOpen)}
+                pendingCount={pendingChatJoins.length}
+                activity={chatActivity}
               />
               <div className="mt-4 border-t border-gray-700 pt-4 flex-grow min-h-0">
                 <ParticipantList
                   participants={participants}
                   onRemoveParticipant={removeParticipant}
+                  onUpdateEntries={updateParticipantEntries}
+                  onMergePeople={mergePeople}
+                  onSplitParticipant={splitParticipant}
                   onClearAll={clearAll}
-                  isSpinning={isSpinning}
+                  ignoreDiacritics={ignoreDiacritics}
+                  onToggleIgnoreDiacritics={() => setIgnoreDiacritics(prev => !prev)}
+                  isSpinning={isSpinning || !!multiDraw || !!elimination}
                 />
               </div>
             </div>
 
-            <div className="flex-1 flex items-center justify-center p-2 sm:p-4 md:p-6 min-h-0">
+            <div className={`relative flex-1 flex items-center justify-center ${layout.stage} min-h-0`}>
+              {multiDraw && (
+                <Podium
+                  multiDraw={multiDraw}
+                  onRemoveWinners={() => finishMultiDraw(true)}
+                  onDone={() => finishMultiDraw(false)}
+                />
+              )}
+              {elimination && (
+                <EliminationPanel
+                  elimination={elimination}
+                  remainingCount={new Set(wheelParticipants.map(p => p.personId)).size}
+                  autoContinue={eliminationAutoContinue}
+                  onToggleAutoContinue={() => setEliminationAutoContinue(prev => !prev)}
+                  pauseSeconds={eliminationPauseSeconds}
+                  onChangePauseSeconds={setEliminationPauseSeconds}
+                  onResume={() => setElimination(prev => prev && { ...prev, status: 'running' })}
+                  onDone={finishElimination}
+                />
+              )}
               <RaffleDisplay
                 participants={wheelParticipants}
                 originalParticipants={participants}
                 winner={winner}
                 isSpinning={isSpinning}
                 isReturning={isReturning}
-                onSpin={handleSpin}
+                onSpin={handleManualSpin}
                 onStopSpin={handleStopSpin}
                 onReset={resetRaffle}
                 onRemoveWinnerEntries={removeWinnerEntries}
+                winnerCaption={winnerCaption}
+                winnerPrizeImageUrl={winner ? winnerPrize?.imageUrl : undefined}
+                showWinnerActions={!multiDraw && !elimination}
+                eliminatingPersonId={elimination?.eliminating?.personId ?? null}
+                visualization={visualization}
+                isCanvasLocked={!!resolutionPreset}
+                wheelStartHue={wheelStartHue}
+                canvasWheelThreshold={canvasWheelThreshold}
+                theme={theme}
                 rotation={rotation}
                 tickCount={tickCount}
+                pointerDeflection={pointerDeflection}
                 isFullscreen={isFullscreen}
               />
             </div>
@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import RaffleDisplay from './RaffleDisplay';
+import Confetti from './Confetti';
+import WaveTitle from './WaveTitle';
+import { DisplayOptions } from '../utils/display';
+import { applyThemeToDocument } from '../utils/theme';
+import { DisplayConnection, connectDisplaySync } from '../utils/remoteControl';
+import { DisplayState, SyncMessage, openSyncChannel, postSyncMessage } from '../utils/sync';
+
+interface AudienceDisplayProps {
+  options: DisplayOptions;
+}
+
+// A window that only mirrors the control window: no panels, no buttons, and no draws of its own
+const AudienceDisplay: React.FC<AudienceDisplayProps> = ({ options }) => {
+  const [state, setState] = useState<DisplayState | null>(null);
+  const [rotation, setRotation] = useState<number>(0);
+  const [tickCount, setTickCount] = useState<number>(0);
+  const [pointerDeflection, setPointerDeflection] = useState<number | null>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const socketRef = useRef<DisplayConnection | null>(null);
+
+  const handleMessage = useCallback((message: SyncMessage) => {
+    if (message.type === 'state') {
+      setState(message.state);
+    } else if (message.type === 'frame') {
+      setRotation(message.rotation);
+      setTickCount(message.tickCount);
+      setPointerDeflection(message.pointerDeflection);
+    }
+  }, []);
+
+  useEffect(() => {
+    const channel = openSyncChannel();
+    if (!channel) return;
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => handleMessage(event.data);
+    postSyncMessage(channel, { type: 'hello' });
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [handleMessage]);
+
+  // OBS and other browsers can't hear the BroadcastChannel; the control API relays the same messages
+  useEffect(() => {
+    if (!options.token) return;
+    const connection = connectDisplaySync(options.token, handleMessage);
+    socketRef.current = connection;
+    return () => {
+      connection.close();
+      socketRef.current = null;
+    };
+  }, [options.token, handleMessage]);
+
+  useEffect(() => {
+    if (state) applyThemeToDocument(state.theme);
+  }, [state?.theme]);
+
+  // The page background image would cover the stream behind a transparent overlay
+  useEffect(() => {
+    if (!options.transparent) return;
+    document.body.classList.add('overlay-mode');
+    return () => document.body.classList.remove('overlay-mode');
+  }, [options.transparent]);
+
+  const sendCommand = useCallback((command: 'spin' | 'stop') => {
+    // Only one way, or the control window would get the click twice
+    const message: SyncMessage = { type: 'command', command };
+    if (socketRef.current) {
+      socketRef.current.send(message);
+    } else {
+      postSyncMessage(channelRef.current, message);
+    }
+  }, []);
+
+  const noop = useCallback(() => {}, []);
+
+  return (
+    <div className="w-screen h-screen bg-transparent flex flex-col overflow-hidden text-gray-100">
+      {state && (options.showLogo || options.showTitle) && (
+        <header className="flex-shrink-0 flex justify-center items-center gap-[2vh] pt-[2vh]">
+          {options.showLogo && state.theme.logoUrl && <img src={state.theme.logoUrl} alt={`${state.theme.name} logo`} className="h-[10vh] w-[10vh] object-contain" />}
+          {options.showTitle && (
+            <WaveTitle text={state.theme.title} className="text-[6vh] font-bold leading-tight" style={{ fontFamily: state.theme.titleFont }} />
+          )}
+        </header>
+      )}
+      {state?.winner && <Confetti colors={state.theme.confettiColors} />}
+      <div className="relative flex-1 flex items-center justify-center p-[2vh] min-h-0">
+        {state ? (
+          <RaffleDisplay
+            participants={state.participants}
+            originalParticipants={state.originalParticipants}
+            winner={state.winner}
+            isSpinning={state.isSpinning}
+            isReturning={state.isReturning}
+            onSpin={() => sendCommand('spin')}
+            onStopSpin={() => sendCommand('stop')}
+            onReset={noop}
+            onRemoveWinnerEntries={noop}
+            winnerCaption={state.winnerCaption}
+            winnerPrizeImageUrl={state.winnerPrizeImageUrl}
+            showWinnerActions={false}
+            eliminatingPersonId={state.eliminatingPersonId}
+            visualization={state.visualization}
+            isCanvasLocked={false}
+            wheelStartHue={state.wheelStartHue}
+            canvasWheelThreshold={state.canvasWheelThreshold}
+            theme={state.theme}
+            rotation={rotation}
+            tickCount={tickCount}
+            pointerDeflection={pointerDeflection}
+            isFullscreen={false}
+          />
+        ) : (
+          !options.transparent && <p className="text-gray-300 text-xl">Waiting for the control panel…</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudienceDisplay;
@@ -1,7 +1,156 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { Participant } from '../types';
+import { Theme } from '../utils/theme';
 
-const BingoCage: React.FC = () => {
-  return null; // This component does nothing.
+interface BingoCageProps {
+  participants: Participant[];
+  rotation: number;
+  onClick: () => void;
+  clickable: boolean;
+  winner: Participant | null;
+  isSpinning: boolean;
+  // Balls of this person fade out before they are taken out of the cage.
+  eliminatingPersonId?: string | null;
+  theme: Theme;
+}
+
+// Past this many entries only a sample of balls is drawn; the draw itself still uses everyone
+const MAX_VISIBLE_BALLS = 80;
+// Balls carry names while they still fit, numbers after that
+const MAX_NAMED_BALLS = 24;
+
+const center = { x: 500, y: 420 };
+const cageRadius = 320;
+
+const BingoCage: React.FC<BingoCageProps> = ({ participants, rotation, onClick, clickable, winner, isSpinning, eliminatingPersonId, theme }) => {
+  const numParticipants = participants.length;
+  const ballRadius = Math.max(20, Math.min(48, 260 / Math.sqrt(Math.max(1, Math.min(numParticipants, MAX_VISIBLE_BALLS)))));
+
+  // Resting spots spread evenly over the lower part of the cage (sunflower pattern), plus a
+  // per-ball tumbling speed so the balls don't all move together while the cage turns
+  const balls = useMemo(() => {
+    const visible = participants.slice(0, MAX_VISIBLE_BALLS);
+    return visible.map((participant, index) => {
+      const spread = Math.sqrt((index + 0.5) / visible.length) * (cageRadius - ballRadius - 20);
+      const angle = index * 137.5;
+      return {
+        participant,
+        label: numParticipants <= MAX_NAMED_BALLS ? participant.name : `#${index + 1}`,
+        color: theme.palette[index % theme.palette.length],
+        spread,
+        angle,
+        speed: 0.4 + (index % 7) * 0.15,
+      };
+    });
+  }, [participants, numParticipants, ballRadius, theme.palette]);
+
+  const getBallPosition = (spread: number, angle: number, speed: number) => {
+    // While the cage turns the balls swirl around its middle; at rest they sink to the bottom
+    const tumble = isSpinning ? rotation * speed : 0;
+    const rad = (angle + tumble) * Math.PI / 180;
+    const sink = isSpinning ? 0 : cageRadius * 0.25;
+    return {
+      x: center.x + Math.cos(rad) * spread,
+      y: Math.min(center.y + cageRadius - ballRadius - 24, center.y + sink + Math.sin(rad) * spread * (isSpinning ? 1 : 0.6)),
+    };
+  };
+
+  const bars = useMemo(() => Array.from({ length: 12 }, (_, i) => {
+    const rad = (i * 30) * Math.PI / 180;
+    return { x: center.x + Math.cos(rad) * cageRadius, y: center.y + Math.sin(rad) * cageRadius };
+  }), []);
+
+  return (
+    <svg viewBox="0 0 1000 1000" className="w-full h-full">
+      {/* Stand */}
+      <path d="M280 900 L420 700 M720 900 L580 700" stroke="#40260f" strokeWidth="28" strokeLinecap="round" />
+      <rect x="200" y="890" width="600" height="40" rx="16" fill="#35200d" />
+
+      {/* Balls inside the cage */}
+      <g clipPath="url(#cage-clip)">
+        <circle cx={center.x} cy={center.y} r={cageRadius} fill="#1f2937" opacity="0.55" />
+        {balls.map(({ participant, label, color, spread, angle, speed }) => {
+          if (winner && participant.id === winner.id) return null; // That ball has dropped out
+          const pos = getBallPosition(spread, angle, speed);
+          return (
+            <g key={participant.id} className={participant.personId === eliminatingPersonId ? 'segment-eliminating' : undefined}>
+              <circle cx={pos.x} cy={pos.y} r={ballRadius} fill={color} stroke="white" strokeWidth="3" />
+              <text
+                x={pos.x}
+                y={pos.y}
+                dy="0.35em"
+                fill="white"
+                fontSize={Math.max(12, ballRadius * 0.55)}
+                fontFamily={theme.wheelFont}
+                textAnchor="middle"
+                textLength={label.length * ballRadius * 0.35 > ballRadius * 1.6 ? ballRadius * 1.6 : undefined}
+                lengthAdjust="spacingAndGlyphs"
+                className="select-none"
+                style={{ textShadow: '1px 1px 2px rgba(0,0,0,0.5)' }}
+              >
+                {label}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+
+      {/* Rotating wire frame */}
+      <g style={{ transform: `rotate(${rotation}deg)`, transformOrigin: `${center.x}px ${center.y}px` }}>
+        <circle cx={center.x} cy={center.y} r={cageRadius} fill="none" stroke="#cbd5e1" strokeWidth="10" />
+        <circle cx={center.x} cy={center.y} r={cageRadius * 0.5} fill="none" stroke="#94a3b8" strokeWidth="4" opacity="0.6" />
+        {bars.map((bar, i) => (
+          <line key={i} x1={center.x} y1={center.y} x2={bar.x} y2={bar.y} stroke="#94a3b8" strokeWidth="4" opacity="0.6" />
+        ))}
+        <rect x={center.x - 60} y={center.y - cageRadius - 18} width="120" height="36" rx="10" fill="#64748b" />
+      </g>
+      <circle cx={center.x} cy={center.y} r="24" fill="url(#cage-hub-gradient)" />
+
+      {/* Exit chute and the ball it dropped */}
+      <path d={`M${center.x - 45} ${center.y + cageRadius - 10} L${center.x - 45} ${center.y + cageRadius + 90} L${center.x + 45} ${center.y + cageRadius + 90} L${center.x + 45} ${center.y + cageRadius - 10}`} fill="none" stroke="#cbd5e1" strokeWidth="8" />
+      {winner && (
+        <g key={winner.id} className="cage-ball-drop">
+          <circle cx={center.x} cy={center.y + cageRadius + 40} r="42" fill="#f59e0b" stroke="white" strokeWidth="4" />
+          <text
+            x={center.x}
+            y={center.y + cageRadius + 40}
+            dy="0.35em"
+            fill="white"
+            fontSize="22"
+            fontWeight="700"
+            fontFamily={theme.wheelFont}
+            textAnchor="middle"
+            textLength={winner.name.length > 6 ? 70 : undefined}
+            lengthAdjust="spacingAndGlyphs"
+            className="select-none"
+          >
+            {winner.name}
+          </text>
+        </g>
+      )}
+
+      {/* Clickable area */}
+      <circle
+        cx={center.x}
+        cy={center.y}
+        r={cageRadius}
+        fill="transparent"
+        onClick={clickable ? onClick : undefined}
+        className={clickable ? 'cursor-pointer' : ''}
+      />
+
+      <defs>
+        <clipPath id="cage-clip">
+          <circle cx={center.x} cy={center.y} r={cageRadius} />
+        </clipPath>
+        <radialGradient id="cage-hub-gradient" cx="0.35" cy="0.35" r="0.65">
+          <stop offset="0%" style={{stopColor: '#f8fafc'}} />
+          <stop offset="50%" style={{stopColor: '#94a3b8'}} />
+          <stop offset="100%" style={{stopColor: '#475569'}} />
+        </radialGradient>
+      </defs>
+    </svg>
+  );
 };
 
 export default BingoCage;
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Participant } from '../types';
+import { SegmentArc, getSegmentArcs } from '../utils/wheel';
+import { getSegmentColor } from '../utils/theme';
+import WheelLights from './WheelLights';
+import { WheelProps } from './Wheel';
+
+// Same 1000×1000 units as the SVG wheel. The texture covers the segments and the pegs that
+// stick out past their edge, i.e. everything that turns.
+const center = 500;
+const radius = 420;
+const TEXTURE_RADIUS = 440;
+const TEXTURE_INSET = `${((center - TEXTURE_RADIUS) / 10)}%`;
+const TEXTURE_SPAN = `${TEXTURE_RADIUS / 5}%`;
+// Largest texture side in pixels; a 4K canvas needs no more.
+const MAX_TEXTURE_SIZE = 4096;
+
+interface TextureOptions {
+  participants: Participant[];
+  arcs: SegmentArc[];
+  colors: string[];
+  font: string;
+  // Whether a segment belongs on this texture; the fading segments get one of their own.
+  includes: (participant: Participant) => boolean;
+  withPegs: boolean;
+}
+
+const toRadians = (angle: number) => (angle - 90) * Math.PI / 180;
+
+// Draws what the SVG wheel's turning group shows, at rotation 0. Sizes, positions and text
+// fitting follow Wheel.tsx so switching renderers doesn't change the look.
+const paintWheelTexture = (canvas: HTMLCanvasElement, size: number, options: TextureOptions) => {
+  const { participants, arcs, colors, font, includes, withPegs } = options;
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const scale = size / (TEXTURE_RADIUS * 2);
+  const offset = center - TEXTURE_RADIUS;
+  ctx.setTransform(scale, 0, 0, scale, -offset * scale, -offset * scale);
+  ctx.clearRect(offset, offset, TEXTURE_RADIUS * 2, TEXTURE_RADIUS * 2);
+
+  const numParticipants = participants.length;
+  const fontSize = numParticipants > 16 ? 24 : numParticipants > 10 ? 28 : 32;
+  const availableTextWidth = radius * 0.8;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, Math.PI * 2);
+  ctx.clip();
+
+  if (numParticipants === 0 && withPegs) {
+    ctx.fillStyle = '#6b7280';
+    ctx.fillRect(offset, offset, TEXTURE_RADIUS * 2, TEXTURE_RADIUS * 2);
+  }
+
+  ctx.font = `400 ${fontSize}px ${font}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  participants.forEach((participant, index) => {
+    if (!includes(participant)) return;
+    const { startAngle, endAngle } = arcs[index];
+
+    ctx.beginPath();
+    ctx.moveTo(center, center);
+    ctx.arc(center, center, radius, toRadians(startAngle), toRadians(endAngle));
+    ctx.closePath();
+    ctx.fillStyle = colors[index];
+    ctx.fill();
+
+    if (numParticipants > 1) {
+      const separatorAngle = toRadians(endAngle);
+      ctx.save();
+      ctx.globalAlpha = 0.5;
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(center, center);
+      ctx.lineTo(center + Math.cos(separatorAngle) * radius, center + Math.sin(separatorAngle) * radius);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Radial and never upside down, as on the SVG wheel
+    const textAngle = startAngle + (endAngle - startAngle) / 2;
+    const textRotation = textAngle + (textAngle > 90 && textAngle < 270 ? -90 : 90);
+    const textRadius = radius * 0.55;
+    ctx.save();
+    ctx.translate(center + Math.cos(toRadians(textAngle)) * textRadius, center + Math.sin(toRadians(textAngle)) * textRadius);
+    ctx.rotate(textRotation * Math.PI / 180);
+    // Long names are squeezed to the available width, like SVG's textLength
+    if (participant.name.length * fontSize * 0.6 > availableTextWidth) {
+      ctx.scale(availableTextWidth / Math.max(1, ctx.measureText(participant.name).width), 1);
+    }
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowOffsetX = scale;
+    ctx.shadowOffsetY = scale;
+    ctx.shadowBlur = 2 * scale;
+    ctx.fillStyle = 'white';
+    ctx.fillText(participant.name, 0, 0);
+    ctx.restore();
+  });
+  ctx.restore();
+
+  if (!withPegs) return;
+
+  ctx.strokeStyle = '#0b0f1c';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  arcs.forEach(({ startAngle }) => {
+    const x = center + Math.cos(toRadians(startAngle)) * 430;
+    const y = center + Math.sin(toRadians(startAngle)) * 430;
+    const pegRadius = 10;
+    // The SVG's metallic-peg-gradient: lit from the top left of the peg's bounding box
+    const gradient = ctx.createRadialGradient(x - 0.3 * pegRadius, y - 0.3 * pegRadius, 0, x - 0.3 * pegRadius, y - 0.3 * pegRadius, 1.3 * pegRadius);
+    gradient.addColorStop(0, '#f1f5f9');
+    gradient.addColorStop(1, '#94a3b8');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, pegRadius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+};
+
+// The wheel for very long participant lists. The segments are painted once into a canvas that
+// only turns via a CSS transform, so a frame costs the same however many names there are; the
+// rim, lights and hub stay SVG and look exactly like Wheel's.
+const CanvasWheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipants, onClick, clickable, hasWinner, isSpinning, eliminatingPersonId, startHue, theme }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const textureRef = useRef<HTMLCanvasElement>(null);
+  const eliminatingTextureRef = useRef<HTMLCanvasElement>(null);
+  const [textureSize, setTextureSize] = useState(0);
+  // Bumped when web fonts finish loading, since a texture painted before that used a fallback
+  const [fontsVersion, setFontsVersion] = useState(0);
+
+  const segmentArcs = useMemo(() => getSegmentArcs(participants), [participants]);
+  const [randomStartHue] = useMemo(() => [startHue ?? Math.random() * 360], [startHue]);
+
+  // Same colour rule as Wheel, with a lookup instead of a search per segment
+  const colors = useMemo(() => {
+    const originalIndexes = new Map(originalParticipants.map((participant, index) => [participant.id, index]));
+    return participants.map(({ id }, index) => {
+      const colorIndex = originalIndexes.get(id) ?? index;
+      return getSegmentColor(theme.palette, participants.length === 2 ? Math.min(colorIndex, 1) : colorIndex, randomStartHue);
+    });
+  }, [participants, originalParticipants, theme.palette, randomStartHue]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => {
+      const pixels = container.clientWidth * (TEXTURE_RADIUS / center) * (window.devicePixelRatio || 1);
+      setTextureSize(Math.min(MAX_TEXTURE_SIZE, Math.max(1, Math.round(pixels))));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!document.fonts) return;
+    const handleLoaded = () => setFontsVersion(version => version + 1);
+    document.fonts.addEventListener('loadingdone', handleLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleLoaded);
+  }, []);
+
+  useEffect(() => {
+    if (!textureRef.current || textureSize === 0) return;
+    const isEliminating = (participant: Participant) => !!eliminatingPersonId && participant.personId === eliminatingPersonId;
+    const options = { participants, arcs: segmentArcs, colors, font: theme.wheelFont };
+    paintWheelTexture(textureRef.current, textureSize, { ...options, includes: participant => !isEliminating(participant), withPegs: true });
+    if (eliminatingTextureRef.current) {
+      paintWheelTexture(eliminatingTextureRef.current, textureSize, { ...options, includes: isEliminating, withPegs: false });
+    }
+  }, [participants, segmentArcs, colors, theme.wheelFont, eliminatingPersonId, textureSize, fontsVersion]);
+
+  const textureStyle: React.CSSProperties = {
+    left: TEXTURE_INSET,
+    top: TEXTURE_INSET,
+    width: TEXTURE_SPAN,
+    height: TEXTURE_SPAN,
+    transform: `rotate(${rotation}deg)`,
+    willChange: 'transform',
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full">
+      <svg viewBox="0 0 1000 1000" className="absolute inset-0 w-full h-full">
+        <circle cx="500" cy="500" r="500" fill={theme.frameEdgeColor} />
+        <circle cx="500" cy="500" r="496" fill={theme.frameColor} />
+        <circle cx="500" cy="500" r="500" fill="none" stroke="black" strokeOpacity="0.2" strokeWidth="8" />
+        <WheelLights hasWinner={hasWinner} isSpinning={isSpinning} />
+        <defs>
+          <radialGradient id="glass-bulb-gradient" cx="0.35" cy="0.35" r="0.65">
+              <stop offset="0%" stopColor="white" stopOpacity="0.4" />
+              <stop offset="100%" stopColor="white" stopOpacity="0.1" />
+          </radialGradient>
+        </defs>
+      </svg>
+
+      <canvas ref={textureRef} className="absolute" style={textureStyle} />
+      {/* The eliminated person's segments fade out on a texture of their own, uncovering the rim below */}
+      {eliminatingPersonId && (
+        <canvas ref={eliminatingTextureRef} className="absolute segment-eliminating" style={textureStyle} />
+      )}
+
+      <svg viewBox="0 0 1000 1000" className="absolute inset-0 w-full h-full pointer-events-none">
+        {/* Clickable area for the segments */}
+        <circle
+          cx="500"
+          cy="500"
+          r="420"
+          fill="transparent"
+          onClick={clickable ? onClick : undefined}
+          className={clickable ? 'cursor-pointer pointer-events-auto' : ''}
+        />
+        <circle cx="500" cy="500" r="40" fill={theme.frameColor} />
+        <circle cx="500" cy="500" r="35" fill={theme.hubColor} />
+        <circle cx="500" cy="500" r="10" fill="url(#metallic-center-gradient)" />
+        <defs>
+          <radialGradient id="metallic-center-gradient" cx="0.35" cy="0.35" r="0.65">
+              <stop offset="0%" style={{stopColor: '#f8fafc'}} />
+              <stop offset="50%" style={{stopColor: '#94a3b8'}} />
+              <stop offset="100%" style={{stopColor: '#475569'}} />
+          </radialGradient>
+        </defs>
+      </svg>
+    </div>
+  );
+};
+
+export default CanvasWheel;
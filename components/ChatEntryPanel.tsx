@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { ChatConnectionStatus, ChatEntrySettings } from '../utils/chat';
+
+interface ChatEntryPanelProps {
+  settings: ChatEntrySettings;
+  status: ChatConnectionStatus | null;
+  isConnected: boolean;
+  onConnect: (settings: ChatEntrySettings) => void;
+  onDisconnect: () => void;
+  isEntryOpen: boolean;
+  onToggleEntryOpen: () => void;
+  // Joins waiting for the current spin or draw to finish.
+  pendingCount: number;
+  activity: string[];
+}
+
+const STATUS_LABELS: Record<ChatConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting…', className: 'bg-amber-400' },
+  connected: { label: 'In chat', className: 'bg-emerald-400' },
+  disconnected: { label: 'Reconnecting…', className: 'bg-amber-400' },
+  failed: { label: 'Could not connect', className: 'bg-red-500' },
+};
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50';
+
+const ChatEntryPanel: React.FC<ChatEntryPanelProps> = ({
+  settings,
+  status,
+  isConnected,
+  onConnect,
+  onDisconnect,
+  isEntryOpen,
+  onToggleEntryOpen,
+  pendingCount,
+  activity,
+}) => {
+  const [draft, setDraft] = useState<ChatEntrySettings>(settings);
+  const statusInfo = status ? STATUS_LABELS[status] : null;
+
+  const update = <K extends keyof ChatEntrySettings>(key: K, value: ChatEntrySettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.channel.trim()) return;
+    onConnect({ ...draft, channel: draft.channel.trim(), keyword: draft.keyword.trim() || settings.keyword });
+  };
+
+  return (
+    <details className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm text-gray-300">
+      <summary className="cursor-pointer select-none flex items-center justify-between gap-2 font-semibold text-purple-300">
+        Chat entries
+        {statusInfo && (
+          <span className="flex items-center gap-1 text-xs font-normal text-gray-400">
+            <span className={`w-2 h-2 rounded-full ${statusInfo.className}`} />
+            {statusInfo.label}
+          </span>
+        )}
+      </summary>
+      <p className="mt-2 text-xs text-gray-400">
+        Viewers who type the keyword in chat are added once each while entries are open. Moderators open and close
+        entries from chat. Leave the username and token empty to read chat anonymously.
+      </p>
+      {status === 'failed' && (
+        <p className="mt-1 text-xs text-red-400">Check the server address, channel and OAuth token.</p>
+      )}
+      <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+        <fieldset disabled={isConnected} className="space-y-2">
+          <input
+            type="text"
+            value={draft.serverUrl}
+            onChange={(e) => update('serverUrl', e.target.value)}
+            placeholder="wss://irc-ws.chat.twitch.tv:443"
+            aria-label="Chat server"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={draft.channel}
+            onChange={(e) => update('channel', e.target.value)}
+            placeholder="Channel"
+            aria-label="Channel"
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draft.username}
+              onChange={(e) => update('username', e.target.value)}
+              placeholder="Bot username"
+              autoComplete="off"
+              aria-label="Bot username"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={draft.oauthToken}
+              onChange={(e) => update('oauthToken', e.target.value)}
+              placeholder="OAuth token"
+              autoComplete="off"
+              aria-label="OAuth token"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex gap-2">
+            <label className="flex-1 text-xs text-gray-400">
+              Keyword
+              <input type="text" value={draft.keyword} onChange={(e) => update('keyword', e.target.value)} className={inputClassName} />
+            </label>
+            <label className="flex-1 text-xs text-gray-400">
+              Open
+              <input type="text" value={draft.openCommand} onChange={(e) => update('openCommand', e.target.value)} className={inputClassName} />
+            </label>
+            <label className="flex-1 text-xs text-gray-400">
+              Close
+              <input type="text" value={draft.closeCommand} onChange={(e) => update('closeCommand', e.target.value)} className={inputClassName} />
+            </label>
+          </div>
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.subscribersOnly}
+                onChange={(e) => update('subscribersOnly', e.target.checked)}
+                className="accent-purple-500"
+              />
+              Subscribers only
+            </label>
+            <label className="flex items-center gap-2">
+              Followed for
+              <input
+                type="number"
+                min={0}
+                value={draft.minFollowDays}
+                onChange={(e) => update('minFollowDays', Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                className="w-14 bg-gray-900 border border-gray-700 rounded-md px-1 py-0.5 text-gray-100 text-center focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+              />
+              days
+            </label>
+          </div>
+        </fieldset>
+        <div className="flex gap-2">
+          {isConnected ? (
+            <>
+              <button
+                type="button"
+                onClick={onToggleEntryOpen}
+                className={`flex-1 text-xs font-semibold py-1 px-3 rounded-md transition-colors duration-200 text-white ${isEntryOpen ? 'bg-red-600 hover:bg-red-700' : 'bg-emerald-600 hover:bg-emerald-700'}`}
+              >
+                {isEntryOpen ? 'Close entries' : 'Open entries'}
+              </button>
+              <button
+                type="button"
+                onClick={onDisconnect}
+                className="text-xs bg-gray-600 hover:bg-gray-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200"
+              >
+                Disconnect
+              </button>
+            </>
+          ) : (
+            <button
+              type="submit"
+              disabled={!draft.channel.trim()}
+              className="flex-1 text-xs bg-purple-600 hover:bg-purple-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Connect
+            </button>
+          )}
+        </div>
+      </form>
+      {isConnected && (
+        <div className="mt-2 text-xs text-gray-400">
+          {pendingCount > 0 && <p className="text-amber-300">{pendingCount} waiting for the draw to finish</p>}
+          <ul className="space-y-0.5">
+            {activity.map((line, index) => (
+              <li key={`${index}-${line}`} className="truncate">{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ChatEntryPanel;
@@ -1,8 +1,9 @@
 
 import React from 'react';
 
-const ConfettiPiece: React.FC<{ id: number }> = ({ id }) => {
-    const colors = ['#6366f1', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'];
+const DEFAULT_COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'];
+
+const ConfettiPiece: React.FC<{ id: number; colors: string[] }> = ({ id, colors }) => {
     const style: React.CSSProperties = {
         position: 'fixed',
         width: `${Math.random() * 8 + 6}px`,
@@ -18,7 +19,11 @@ const ConfettiPiece: React.FC<{ id: number }> = ({ id }) => {
     return <div style={style} />;
 };
 
-const Confetti: React.FC = () => {
+interface ConfettiProps {
+    colors?: string[];
+}
+
+const Confetti: React.FC<ConfettiProps> = ({ colors = DEFAULT_COLORS }) => {
     const confettiCount = 150;
 
     const keyframes = `
@@ -35,7 +40,7 @@ const Confetti: React.FC = () => {
             <style>{keyframes}</style>
             <div className="pointer-events-none fixed top-0 left-0 w-full h-full overflow-hidden z-50">
                 {Array.from({ length: confettiCount }).map((_, index) => (
-                    <ConfettiPiece key={index} id={index} />
+                    <ConfettiPiece key={index} id={index} colors={colors} />
                 ))}
             </div>
         </>
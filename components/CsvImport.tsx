@@ -0,0 +1,212 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ParticipantDraft } from '../types';
+import { parseDelimited } from '../utils/csv';
+import { cleanName } from '../utils/names';
+
+interface CsvImportProps {
+  onImport: (participants: ParticipantDraft[]) => void;
+  disabled: boolean;
+}
+
+interface ColumnMapping {
+  nameColumn: number;
+  // -1 means the column is not used.
+  entriesColumn: number;
+  handleColumn: number;
+}
+
+interface SkippedRow {
+  row: number;
+  reason: string;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Picks sensible default columns from the header row, falling back to the first column for names.
+const guessMapping = (header: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => header.findIndex(title => pattern.test(title.toLowerCase()));
+  const nameColumn = find(/name|nome|nombre/);
+  return {
+    nameColumn: nameColumn !== -1 ? nameColumn : 0,
+    entriesColumn: find(/entr|ticket|count|qty|quantity/),
+    handleColumn: find(/handle|user|discord|twitter|instagram|tiktok|@/),
+  };
+};
+
+const mapRows = (rows: string[][], mapping: ColumnMapping, firstRowNumber: number) => {
+  const participants: ParticipantDraft[] = [];
+  const skipped: SkippedRow[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = firstRowNumber + index;
+    const name = cleanName(row[mapping.nameColumn] ?? '');
+    if (!name) {
+      skipped.push({ row: rowNumber, reason: 'empty name' });
+      return;
+    }
+
+    const participant: ParticipantDraft = { name, source: 'file' };
+    if (mapping.entriesColumn !== -1) {
+      const rawEntries = (row[mapping.entriesColumn] ?? '').trim();
+      if (rawEntries) {
+        const entries = Number(rawEntries);
+        if (!Number.isInteger(entries) || entries < 1) {
+          skipped.push({ row: rowNumber, reason: `invalid entry count "${rawEntries}"` });
+          return;
+        }
+        participant.entries = entries;
+      }
+    }
+    if (mapping.handleColumn !== -1) {
+      const handle = (row[mapping.handleColumn] ?? '').trim();
+      if (handle) participant.handle = handle;
+    }
+    participants.push(participant);
+  });
+
+  return { participants, skipped };
+};
+
+const CsvImport: React.FC<CsvImportProps> = ({ onImport, disabled }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({ nameColumn: 0, entriesColumn: -1, handleColumn: -1 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = hasHeader && rows.length > 0 ? rows[0] : [];
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+  const columnLabel = (index: number) => header[index] || `Column ${index + 1}`;
+
+  const { participants, skipped } = useMemo(
+    () => mapRows(dataRows, mapping, hasHeader ? 2 : 1),
+    [dataRows, mapping, hasHeader]
+  );
+
+  const loadFile = async (file: File) => {
+    setMessage(null);
+    try {
+      const parsedRows = parseDelimited(await file.text());
+      if (parsedRows.length === 0) {
+        setMessage(`"${file.name}" has no rows.`);
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsedRows);
+      setHasHeader(true);
+      setMapping(guessMapping(parsedRows[0]));
+    } catch (err) {
+      setMessage(`Could not read "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && !disabled) loadFile(file);
+  };
+
+  const handleImport = () => {
+    if (participants.length > 0) onImport(participants);
+    const skippedSummary = skipped.length > 0
+      ? ` Skipped ${skipped.length} row${skipped.length === 1 ? '' : 's'}: ${skipped.slice(0, 5).map(s => `row ${s.row} (${s.reason})`).join(', ')}${skipped.length > 5 ? ', …' : ''}.`
+      : '';
+    setMessage(`Imported ${participants.length} participant${participants.length === 1 ? '' : 's'} from "${fileName}".${skippedSummary}`);
+    setFileName(null);
+    setRows([]);
+  };
+
+  const selectClassName = "w-full bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+  const columnOptions = (allowNone: boolean) => (
+    <>
+      {allowNone && <option value={-1}>None</option>}
+      {Array.from({ length: columnCount }, (_, index) => (
+        <option key={index} value={index}>{columnLabel(index)}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="mt-4">
+      {rows.length === 0 ? (
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          className={`border-2 border-dashed rounded-md p-4 text-center text-sm cursor-pointer transition-colors ${isDragging ? 'border-purple-400 bg-purple-900/40 text-purple-200' : 'border-gray-600 text-gray-400 hover:border-purple-500'}`}
+        >
+          Drop a CSV or TSV file here, or click to browse
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+            onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) loadFile(file); }}
+            className="hidden"
+          />
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm text-gray-300">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold truncate">{fileName}</span>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-purple-500" />
+              First row is a header
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label>Name
+              <select value={mapping.nameColumn} onChange={(e) => setMapping(m => ({ ...m, nameColumn: Number(e.target.value) }))} className={selectClassName}>
+                {columnOptions(false)}
+              </select>
+            </label>
+            <label>Entries
+              <select value={mapping.entriesColumn} onChange={(e) => setMapping(m => ({ ...m, entriesColumn: Number(e.target.value) }))} className={selectClassName}>
+                {columnOptions(true)}
+              </select>
+            </label>
+            <label>Handle
+              <select value={mapping.handleColumn} onChange={(e) => setMapping(m => ({ ...m, handleColumn: Number(e.target.value) }))} className={selectClassName}>
+                {columnOptions(true)}
+              </select>
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="pr-2">Name</th><th className="pr-2">Entries</th><th>Handle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {participants.slice(0, PREVIEW_ROWS).map((p, index) => (
+                  <tr key={index} className="border-t border-gray-800">
+                    <td className="pr-2 py-0.5 truncate max-w-[10rem]">{p.name}</td>
+                    <td className="pr-2">{p.entries ?? 1}</td>
+                    <td className="truncate max-w-[8rem]">{p.handle ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-gray-400">
+            {participants.length} row{participants.length === 1 ? '' : 's'} ready to import
+            {skipped.length > 0 && <span className="text-amber-400">, {skipped.length} will be skipped</span>}
+          </p>
+          <div className="flex justify-end gap-3">
+            <button onClick={() => { setRows([]); setFileName(null); }} className="py-1 px-3 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Discard</button>
+            <button onClick={handleImport} disabled={disabled || participants.length === 0} className="py-1 px-3 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors disabled:bg-purple-800/50">Import File</button>
+          </div>
+        </div>
+      )}
+      {message && <p className="mt-2 text-sm text-gray-300">{message}</p>}
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Elimination } from '../types';
+
+interface EliminationPanelProps {
+  elimination: Elimination;
+  // Number of different people still on the wheel.
+  remainingCount: number;
+  autoContinue: boolean;
+  onToggleAutoContinue: () => void;
+  pauseSeconds: number;
+  onChangePauseSeconds: (seconds: number) => void;
+  onResume: () => void;
+  onDone: () => void;
+}
+
+const EliminationPanel: React.FC<EliminationPanelProps> = ({
+  elimination,
+  remainingCount,
+  autoContinue,
+  onToggleAutoContinue,
+  pauseSeconds,
+  onChangePauseSeconds,
+  onResume,
+  onDone,
+}) => {
+  const { order, eliminating, status } = elimination;
+
+  return (
+    <div className="absolute top-0 right-0 z-30 w-64 bg-gray-950/85 backdrop-blur-sm rounded-xl shadow-lg p-4 text-gray-200 animate-fade-in">
+      <h3 className="text-lg font-bold text-rose-300">
+        {status === 'running' ? 'Last one standing' : status === 'finished' ? 'We have a survivor!' : 'Elimination paused'}
+      </h3>
+      <p className="text-sm text-gray-400 mb-3">
+        {remainingCount} left · {order.length} out
+      </p>
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer select-none">
+        <input type="checkbox" checked={autoContinue} onChange={onToggleAutoContinue} className="accent-rose-500" />
+        Spin automatically
+      </label>
+      <label className="flex items-center justify-between gap-2 text-sm mt-2">
+        Pause between spins
+        <span className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={pauseSeconds}
+            onChange={(e) => onChangePauseSeconds(Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+            disabled={!autoContinue}
+            className="w-14 bg-gray-900 border border-gray-700 rounded-md px-2 py-0.5 text-gray-100 focus:outline-none focus:ring-2 focus:ring-rose-500 disabled:opacity-50"
+          />
+          s
+        </span>
+      </label>
+      {status === 'running' && !autoContinue && !eliminating && (
+        <p className="text-xs text-gray-500 mt-2">Click the wheel for the next spin.</p>
+      )}
+
+      {(order.length > 0 || eliminating) && (
+        <ol className="mt-3 space-y-1 max-h-60 overflow-y-auto pr-1 text-sm">
+          {order.map((participant, index) => (
+            <li key={participant.id} className="flex gap-2 text-gray-400">
+              <span className="w-6 text-right text-gray-500">{index + 1}.</span>
+              <span className="truncate line-through">{participant.name}</span>
+            </li>
+          ))}
+          {eliminating && (
+            <li className="flex gap-2 text-rose-300 font-semibold animate-pulse">
+              <span className="w-6 text-right">{order.length + 1}.</span>
+              <span className="truncate">{eliminating.name} is out!</span>
+            </li>
+          )}
+        </ol>
+      )}
+
+      <div className="flex flex-col gap-2 mt-4">
+        {status === 'stopped' && (
+          <button onClick={onResume} className="py-2 px-4 bg-rose-600 hover:bg-rose-700 rounded-lg text-white text-sm font-semibold transition-colors">
+            Continue
+          </button>
+        )}
+        <button onClick={onDone} className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white text-sm font-semibold transition-colors">
+          {status === 'finished' ? 'Done' : 'End Elimination'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EliminationPanel;
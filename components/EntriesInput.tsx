@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+
+interface EntriesInputProps {
+  entries: number;
+  participantName: string;
+  onChange: (entries: number) => void;
+  disabled: boolean;
+}
+
+const EntriesInput: React.FC<EntriesInputProps> = ({ entries, participantName, onChange, disabled }) => {
+  // Typed text, applied on blur or Enter, so clearing the field to retype doesn't reset the entries to 1
+  const [draft, setDraft] = useState(String(entries));
+
+  useEffect(() => {
+    setDraft(String(entries));
+  }, [entries]);
+
+  const applyDraft = () => {
+    const parsed = parseInt(draft, 10);
+    const value = Number.isNaN(parsed) ? entries : Math.max(1, parsed);
+    setDraft(String(value));
+    if (value !== entries) onChange(value);
+  };
+
+  return (
+    <input
+      type="number"
+      min={1}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={applyDraft}
+      onKeyDown={(e) => { if (e.key === 'Enter') applyDraft(); }}
+      disabled={disabled}
+      title="Entries"
+      aria-label={`Entries for ${participantName}`}
+      className="w-14 bg-gray-900 border border-gray-700 rounded-md px-2 py-0.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+    />
+  );
+};
+
+export default EntriesInput;
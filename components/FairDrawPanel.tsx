@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ShieldCheckIcon } from './icons';
+import VerifyDrawModal from './VerifyDrawModal';
+import { FairDraw } from '../types';
+
+interface FairDrawPanelProps {
+  isFairMode: boolean;
+  onToggleFairMode: () => void;
+  pendingDraw: FairDraw | null;
+  revealedDraw: (FairDraw & { winnerName: string | null }) | null;
+  disabled: boolean;
+}
+
+const FairDrawPanel: React.FC<FairDrawPanelProps> = ({ isFairMode, onToggleFairMode, pendingDraw, revealedDraw, disabled }) => {
+  const [isVerifyOpen, setIsVerifyOpen] = useState(false);
+  const [showList, setShowList] = useState(false);
+
+  return (
+    <div className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm text-gray-300">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input type="checkbox" checked={isFairMode} onChange={onToggleFairMode} disabled={disabled} className="accent-emerald-500" />
+          <span className="flex items-center gap-1 font-semibold text-emerald-400"><ShieldCheckIcon /> Provably fair draw</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => setIsVerifyOpen(true)}
+          className="text-xs bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200"
+        >
+          Verify draw
+        </button>
+      </div>
+
+      {isFairMode && (
+        <div className="mt-2 space-y-1">
+          {pendingDraw ? (
+            <>
+              <p className="break-all font-mono text-xs">
+                <span className="text-gray-400 font-sans">Commitment: </span>{pendingDraw.commitment}
+              </p>
+              <button type="button" onClick={() => setShowList(prev => !prev)} className="text-xs text-indigo-300 hover:underline">
+                {showList ? 'Hide' : 'Show'} committed participant list
+              </button>
+              {showList && (
+                <textarea
+                  readOnly
+                  value={pendingDraw.participantsList}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full h-20 bg-gray-900 border border-gray-700 rounded-md p-2 text-gray-300 font-mono text-xs"
+                />
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500 text-xs">The commitment for the next spin will appear here.</p>
+          )}
+
+          {revealedDraw && (
+            <div className="border-t border-gray-700 pt-2 mt-2">
+              <p className="text-xs">
+                {revealedDraw.winnerName
+                  ? <>Last draw: <span className="font-semibold text-amber-300">{revealedDraw.winnerName}</span></>
+                  : 'Last draw was stopped before a winner was chosen.'}
+              </p>
+              <p className="break-all font-mono text-xs">
+                <span className="text-gray-400 font-sans">Revealed seed: </span>{revealedDraw.seed}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isVerifyOpen && (
+        <VerifyDrawModal
+          onClose={() => setIsVerifyOpen(false)}
+          initialSeed={revealedDraw?.seed}
+          initialList={revealedDraw?.participantsList}
+          initialCommitment={revealedDraw?.commitment}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FairDrawPanel;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Prize, PrizeTier } from '../types';
+import { formatPlace } from '../utils/history';
+
+interface MultiDrawSetupModalProps {
+  // Number of different people currently on the wheel; caps how many places can be drawn.
+  maxWinners: number;
+  // Catalog prizes offered as suggestions; picking one by name takes it out of stock when won.
+  prizes: Prize[];
+  onStart: (tiers: PrizeTier[]) => void;
+  onClose: () => void;
+}
+
+const MultiDrawSetupModal: React.FC<MultiDrawSetupModalProps> = ({ maxWinners, prizes, onStart, onClose }) => {
+  const [winnerCount, setWinnerCount] = useState(Math.min(3, maxWinners));
+  const [prizeNames, setPrizeNames] = useState<string[]>([]);
+
+  const handleCountChange = (value: string) => {
+    setWinnerCount(Math.min(maxWinners, Math.max(1, parseInt(value, 10) || 1)));
+  };
+
+  const handlePrizeChange = (index: number, value: string) => {
+    setPrizeNames(prev => {
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const handleStart = () => {
+    const tiers = Array.from({ length: winnerCount }, (_, index): PrizeTier => {
+      const prizeName = (prizeNames[index] ?? '').trim();
+      const catalogPrize = prizes.find(p => p.name === prizeName);
+      return catalogPrize ? { place: index + 1, prizeName, prizeId: catalogPrize.id } : { place: index + 1, prizeName };
+    });
+    onStart(tiers);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-md animate-fade-in flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Multi-Winner Draw</h2>
+        <p className="text-gray-400 mb-4 text-sm">
+          The wheel spins once per place. Each winner leaves the pool before the next spin, and every result is saved to the winner history.
+        </p>
+        <label className="flex items-center justify-between gap-3 text-gray-300 mb-4">
+          Number of winners
+          <input
+            type="number"
+            min={1}
+            max={maxWinners}
+            value={winnerCount}
+            onChange={(e) => handleCountChange(e.target.value)}
+            className="w-20 bg-gray-900 border border-gray-700 rounded-md px-3 py-1.5 text-gray-100 focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </label>
+        <div className="space-y-2 overflow-y-auto pr-2 min-h-0">
+          {Array.from({ length: winnerCount }, (_, index) => (
+            <label key={index} className="flex items-center gap-3 text-gray-300">
+              <span className="w-12 font-semibold text-amber-300">{formatPlace(index + 1)}</span>
+              <input
+                type="text"
+                value={prizeNames[index] ?? ''}
+                onChange={(e) => handlePrizeChange(index, e.target.value)}
+                placeholder="Prize (optional)"
+                list="multi-draw-prizes"
+                className="flex-grow bg-gray-900 border border-gray-700 rounded-md px-3 py-1.5 text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </label>
+          ))}
+        </div>
+        <datalist id="multi-draw-prizes">
+          {prizes.map(prize => <option key={prize.id} value={prize.name} />)}
+        </datalist>
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Cancel</button>
+          <button onClick={handleStart} className="py-2 px-4 bg-amber-500 hover:bg-amber-600 rounded-md text-white font-semibold transition-colors">Start Draw</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultiDrawSetupModal;
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { Participant } from '../types';
+
+interface ParticipantGroupsModalProps {
+  participants: Participant[];
+  onMergePeople: (sourcePersonId: string, targetPersonId: string) => void;
+  onSplitParticipant: (participantId: string) => void;
+  onClose: () => void;
+  disabled: boolean;
+}
+
+interface PersonGroup {
+  personId: string;
+  label: string;
+  members: Participant[];
+}
+
+// Groups participant entries by person, in the order each person first appears in the list.
+const groupByPerson = (participants: Participant[]): PersonGroup[] => {
+  const groups = new Map<string, PersonGroup>();
+  participants.forEach(participant => {
+    let group = groups.get(participant.personId);
+    if (!group) {
+      group = { personId: participant.personId, label: participant.name, members: [] };
+      groups.set(participant.personId, group);
+    }
+    group.members.push(participant);
+  });
+  return Array.from(groups.values());
+};
+
+const ParticipantGroupsModal: React.FC<ParticipantGroupsModalProps> = ({ participants, onMergePeople, onSplitParticipant, onClose, disabled }) => {
+  const people = useMemo(() => groupByPerson(participants), [participants]);
+  const linkedGroups = people.filter(group => group.members.length > 1);
+  const [sourcePersonId, setSourcePersonId] = useState('');
+  const [targetPersonId, setTargetPersonId] = useState('');
+
+  const canMerge = !disabled && sourcePersonId && targetPersonId && sourcePersonId !== targetPersonId;
+
+  const handleMerge = () => {
+    if (!canMerge) return;
+    onMergePeople(sourcePersonId, targetPersonId);
+    setSourcePersonId('');
+  };
+
+  const selectClassName = "flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+  const personOptions = people.map(group => (
+    <option key={group.personId} value={group.personId}>
+      {group.label}{group.members.length > 1 ? ` (+${group.members.length - 1})` : ''}
+    </option>
+  ));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-lg animate-fade-in flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-gray-200">People &amp; Groups</h2>
+        <p className="text-gray-400 mb-4 text-sm">
+          Entries grouped under one person are removed together when that person wins. New names are grouped automatically when they look alike; split or merge them here if the guess is wrong.
+        </p>
+
+        <div className="overflow-y-auto flex-grow min-h-0 space-y-3 pr-2">
+          {linkedGroups.length > 0 ? linkedGroups.map(group => (
+            <div key={group.personId} className="bg-gray-900/60 rounded-md p-3">
+              <h3 className="font-semibold text-indigo-300 mb-2">{group.label}</h3>
+              <ul className="space-y-1">
+                {group.members.map(participant => (
+                  <li key={participant.id} className="flex items-center justify-between gap-2 text-gray-200">
+                    <span className="truncate">{participant.name}</span>
+                    <button
+                      onClick={() => onSplitParticipant(participant.id)}
+                      disabled={disabled}
+                      className="text-xs py-1 px-2 bg-gray-600 hover:bg-gray-700 rounded-md text-white transition-colors disabled:opacity-50"
+                    >
+                      Split off
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )) : (
+            <p className="text-gray-500 text-sm">Every entry currently belongs to a different person.</p>
+          )}
+        </div>
+
+        <div className="border-t border-gray-700 mt-4 pt-4">
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Merge two people</h3>
+          <div className="flex items-center gap-2">
+            <select value={sourcePersonId} onChange={(e) => setSourcePersonId(e.target.value)} className={selectClassName} aria-label="Person to merge">
+              <option value="">Choose…</option>
+              {personOptions}
+            </select>
+            <span className="text-gray-400 text-sm">into</span>
+            <select value={targetPersonId} onChange={(e) => setTargetPersonId(e.target.value)} className={selectClassName} aria-label="Person to merge into">
+              <option value="">Choose…</option>
+              {personOptions}
+            </select>
+            <button onClick={handleMerge} disabled={!canMerge} className="py-1.5 px-3 bg-indigo-600 hover:bg-indigo-700 rounded-md text-white text-sm font-semibold transition-colors disabled:bg-indigo-800/50">
+              Merge
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantGroupsModal;
@@ -1,13 +1,23 @@
 import React, { useState } from 'react';
 import { PlusIcon, ListIcon, TrophyIcon, ShuffleIcon } from './icons';
+import WinnerHistoryModal from './WinnerHistoryModal';
+import CsvImport from './CsvImport';
+import { ParticipantDraft, WinnerHistoryEntry } from '../types';
+import { cleanName } from '../utils/names';
 
 interface ParticipantInputProps {
-  onAddParticipant: (name: string) => void;
-  onAddMultipleParticipants: (names: string[]) => void;
+  onAddParticipant: (name: string, entries: number) => void;
+  onAddMultipleParticipants: (participants: ParticipantDraft[]) => void;
   disabled: boolean;
-  winnerHistory: { winnerName: string; raffleTitle: string; timestamp: number }[];
+  winnerHistory: WinnerHistoryEntry[];
+  onDeleteWinnerEntry: (entryId: string) => void;
+  onUpdateWinnerNote: (entryId: string, note: string) => void;
+  onImportWinnerHistory: (entries: WinnerHistoryEntry[]) => number;
   onShuffle: () => void;
   onAddListClick: () => void;
+  onMultiDrawClick: () => void;
+  onEliminationClick: () => void;
+  isCanvasLocked: boolean;
 }
 
 const ParticipantInput: React.FC<ParticipantInputProps> = ({
@@ -15,10 +25,17 @@ const ParticipantInput: React.FC<ParticipantInputProps> = ({
   onAddMultipleParticipants,
   disabled,
   winnerHistory,
+  onDeleteWinnerEntry,
+  onUpdateWinnerNote,
+  onImportWinnerHistory,
   onShuffle,
   onAddListClick,
+  onMultiDrawClick,
+  onEliminationClick,
+  isCanvasLocked,
 }) => {
   const [name, setName] = useState('');
+  const [entries, setEntries] = useState(1);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isWinnersModalOpen, setIsWinnersModalOpen] = useState(false);
   const [listText, setListText] = useState('');
@@ -26,47 +43,25 @@ const ParticipantInput: React.FC<ParticipantInputProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim()) {
-      onAddParticipant(name);
+      onAddParticipant(name, entries);
       setName('');
+      setEntries(1);
     }
   };
 
   const handleAddList = () => {
     const names = listText
       .split(/[\n,;]+/)
-      .map(name => {
-        // Remove special characters, allowing alphanumeric, spaces, hyphens, and dollar signs
-        return name.replace(/[^a-zA-Z0-9\s\-$]/g, '')
-                   .replace(/\s+/g, ' ') // Collapse multiple spaces
-                   .trim();
-      })
+      .map(cleanName) // Normalize Unicode and whitespace while keeping accents, scripts and emoji
       .filter(Boolean); // Filter out any names that are empty after cleaning
     
     if (names.length > 0) {
-      onAddMultipleParticipants(names);
+      onAddMultipleParticipants(names.map(name => ({ name })));
     }
     setIsModalOpen(false);
     setListText('');
   };
 
-  const now = Date.now();
-  const twoHoursAgo = now - (2 * 60 * 60 * 1000);
-  const recentWinners = winnerHistory.filter(w => w.timestamp >= twoHoursAgo);
-
-  // FIX: Explicitly type `winnersByRaffle` to prevent `Object.entries` from returning `[string, unknown][]`.
-  // The result of `reduce` can be inferred as a generic `object`,
-  // causing `Object.entries` to return `[string, unknown][]`. Explicitly
-  // typing the `winnersByRaffle` constant and the initial accumulator value
-  // ensures `winnersByRaffle` gets the correct type of `Record<string, string[]>`.
-  const winnersByRaffle: Record<string, string[]> = recentWinners.reduce((acc, current) => {
-    const title = current.raffleTitle.trim() || 'Untitled Raffle';
-    if (!acc[title]) {
-      acc[title] = [];
-    }
-    acc[title].push(current.winnerName);
-    return acc;
-  }, {} as Record<string, string[]>);
-
   return (
     <>
       <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
@@ -78,6 +73,16 @@ const ParticipantInput: React.FC<ParticipantInputProps> = ({
           disabled={disabled}
           className="flex-grow bg-gray-900 border border-gray-700 rounded-md px-4 py-2 text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition disabled:opacity-50 min-w-[100px]"
         />
+        <input
+          type="number"
+          min={1}
+          value={entries}
+          onChange={(e) => setEntries(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          disabled={disabled}
+          title="Entries"
+          aria-label="Number of entries"
+          className="w-20 bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition disabled:opacity-50"
+        />
         <button
           type="submit"
           disabled={disabled || !name.trim()}
@@ -117,21 +122,39 @@ const ParticipantInput: React.FC<ParticipantInputProps> = ({
           <ShuffleIcon />
           <span>Shuffle</span>
         </button>
+        <button
+          type="button"
+          onClick={onMultiDrawClick}
+          disabled={disabled}
+          className="bg-rose-600 hover:bg-rose-700 text-white font-bold py-2 px-[17px] rounded-md flex items-center gap-2 transition-colors duration-200 disabled:bg-rose-800/50 disabled:cursor-not-allowed"
+        >
+          <TrophyIcon />
+          <span>Multi Draw</span>
+        </button>
+        <button
+          type="button"
+          onClick={onEliminationClick}
+          disabled={disabled}
+          className="bg-slate-600 hover:bg-slate-700 text-white font-bold py-2 px-[17px] rounded-md flex items-center gap-2 transition-colors duration-200 disabled:bg-slate-800/50 disabled:cursor-not-allowed"
+        >
+          <span>Elimination</span>
+        </button>
       </form>
 
       {isModalOpen && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={() => setIsModalOpen(false)}>
             <div className="bg-purple-950 p-6 rounded-lg shadow-xl w-full max-w-md animate-fade-in" onClick={(e) => e.stopPropagation()}>
                 <h2 className="text-xl font-bold mb-2 text-gray-200">Add a List of Names</h2>
-                <p className="text-gray-400 mb-4 text-sm">Paste a list of names. They can be separated by new lines, commas, or semicolons.</p>
+                <p className="text-gray-400 mb-4 text-sm">Paste a list of names. They can be separated by new lines, commas, or semicolons. Or import a spreadsheet export below.</p>
                 <textarea
                     value={listText}
                     onChange={(e) => setListText(e.target.value)}
                     className="w-full h-40 bg-gray-900 border border-gray-700 rounded-md p-3 text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500 transition"
                     placeholder={`Alice, Bob\nCharlie; Diana`}
                 />
+                <CsvImport onImport={onAddMultipleParticipants} disabled={disabled} />
                 <div className="flex justify-end gap-3 mt-4">
-                    <button onClick={() => setIsModalOpen(false)} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Cancel</button>
+                    <button onClick={() => setIsModalOpen(false)} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Close</button>
                     <button onClick={handleAddList} className="py-2 px-4 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors disabled:bg-purple-800/50" disabled={!listText.trim()}>Add Names</button>
                 </div>
             </div>
@@ -139,30 +162,14 @@ const ParticipantInput: React.FC<ParticipantInputProps> = ({
       )}
 
       {isWinnersModalOpen && (
-        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={() => setIsWinnersModalOpen(false)}>
-            <div className="bg-amber-200 p-6 rounded-lg shadow-xl w-full max-w-md animate-fade-in" onClick={(e) => e.stopPropagation()}>
-                <h2 className="text-xl font-bold mb-4 text-amber-900">Recent Winners (Last 2 Hours)</h2>
-                {Object.keys(winnersByRaffle).length > 0 ? (
-                  <div className="space-y-4 max-h-80 overflow-y-auto pr-2">
-                    {Object.entries(winnersByRaffle).map(([title, winners]) => (
-                      <div key={title}>
-                        <h3 className="font-semibold text-purple-800 border-b border-purple-400 pb-1 mb-2">{title}</h3>
-                        <ul className="list-disc list-inside space-y-1 text-amber-800">
-                          {winners.map((winner, index) => (
-                            <li key={`${winner}-${index}`}>{winner}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-amber-700">No winners have been recorded in the last 2 hours.</p>
-                )}
-                <div className="flex justify-end mt-6">
-                    <button onClick={() => setIsWinnersModalOpen(false)} className="py-2 px-4 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors">Close</button>
-                </div>
-            </div>
-        </div>
+        <WinnerHistoryModal
+          winnerHistory={winnerHistory}
+          onDeleteEntry={onDeleteWinnerEntry}
+          onUpdateNote={onUpdateWinnerNote}
+          onImport={onImportWinnerHistory}
+          onClose={() => setIsWinnersModalOpen(false)}
+          isCanvasLocked={isCanvasLocked}
+        />
       )}
     </>
   );
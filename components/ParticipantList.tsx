@@ -1,15 +1,44 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { TrashIcon } from './icons';
+import EntriesInput from './EntriesInput';
+import ParticipantGroupsModal from './ParticipantGroupsModal';
+import { Participant } from '../types';
+import { getTotalEntries } from '../utils/wheel';
 
 interface ParticipantListProps {
-  participants: string[];
-  onRemoveParticipant: (index: number) => void;
+  participants: Participant[];
+  onRemoveParticipant: (participantId: string) => void;
+  onUpdateEntries: (participantId: string, entries: number) => void;
+  onMergePeople: (sourcePersonId: string, targetPersonId: string) => void;
+  onSplitParticipant: (participantId: string) => void;
   onClearAll: () => void;
+  ignoreDiacritics: boolean;
+  onToggleIgnoreDiacritics: () => void;
   isSpinning: boolean;
 }
 
-const ParticipantList: React.FC<ParticipantListProps> = ({ participants, onRemoveParticipant, onClearAll, isSpinning }) => {
+const ParticipantList: React.FC<ParticipantListProps> = ({
+  participants,
+  onRemoveParticipant,
+  onUpdateEntries,
+  onMergePeople,
+  onSplitParticipant,
+  onClearAll,
+  ignoreDiacritics,
+  onToggleIgnoreDiacritics,
+  isSpinning,
+}) => {
+  const totalEntries = getTotalEntries(participants);
+  const [isGroupsOpen, setIsGroupsOpen] = useState(false);
+
+  const groupSizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    participants.forEach(p => sizes.set(p.personId, (sizes.get(p.personId) ?? 0) + 1));
+    return sizes;
+  }, [participants]);
+  const linkedGroupCount = Array.from(groupSizes.values()).filter(size => size > 1).length;
+
   const listClassName = `space-y-2 overflow-y-auto flex-grow pr-2 ${
     participants.length > 17 ? 'columns-2 gap-x-4' : ''
   }`;
@@ -19,7 +48,22 @@ const ParticipantList: React.FC<ParticipantListProps> = ({ participants, onRemov
       <div className="flex items-center justify-between mb-3">
         <h2 className="text-xl font-semibold text-gray-300">
           Participants ({participants.length})
+          {totalEntries !== participants.length && (
+            <span className="ml-2 text-sm font-normal text-gray-400">{totalEntries} entries</span>
+          )}
         </h2>
+        <label className="ml-auto mr-3 flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none" title="Group names like João and Joao as the same person">
+          <input type="checkbox" checked={ignoreDiacritics} onChange={onToggleIgnoreDiacritics} disabled={isSpinning} className="accent-indigo-500" />
+          Ignore accents
+        </label>
+        <button
+          onClick={() => setIsGroupsOpen(true)}
+          disabled={participants.length === 0}
+          className="mr-2 text-sm bg-gray-600 hover:bg-gray-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Review which entries belong to the same person"
+        >
+          Groups{linkedGroupCount > 0 ? ` (${linkedGroupCount})` : ''}
+        </button>
         <button
           onClick={onClearAll}
           disabled={isSpinning || participants.length === 0}
@@ -30,17 +74,34 @@ const ParticipantList: React.FC<ParticipantListProps> = ({ participants, onRemov
       </div>
       {participants.length > 0 ? (
          <ul className={listClassName}>
-          {participants.map((participant, index) => (
+          {participants.map(participant => (
             <li
-              key={`${participant}-${index}`} // More robust key
-              className="flex items-center justify-between bg-gray-900/50 rounded-md px-4 py-2 animate-fade-in break-inside-avoid"
+              key={participant.id}
+              className="flex items-center justify-between gap-2 bg-gray-900/50 rounded-md px-4 py-2 animate-fade-in break-inside-avoid"
             >
-              <span className="text-gray-200 truncate">{participant}</span>
+              <span className="text-gray-200 truncate flex-grow">
+                {participant.name}
+                {participant.handle && <span className="ml-2 text-xs text-gray-400">{participant.handle}</span>}
+                {(groupSizes.get(participant.personId) ?? 0) > 1 && (
+                  <span className="ml-2 text-xs text-indigo-300" title="Linked to other entries for the same person">
+                    linked ×{groupSizes.get(participant.personId)}
+                  </span>
+                )}
+                {participant.tags.map(tag => (
+                  <span key={tag} className="ml-2 text-xs bg-gray-700 text-gray-300 rounded px-1.5 py-0.5">{tag}</span>
+                ))}
+              </span>
+              <EntriesInput
+                entries={participant.entries}
+                participantName={participant.name}
+                onChange={(entries) => onUpdateEntries(participant.id, entries)}
+                disabled={isSpinning}
+              />
               <button
-                onClick={() => onRemoveParticipant(index)}
+                onClick={() => onRemoveParticipant(participant.id)}
                 disabled={isSpinning}
                 className="text-gray-400 hover:text-red-500 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                aria-label={`Remove ${participant}`}
+                aria-label={`Remove ${participant.name}`}
               >
                 <TrashIcon />
               </button>
@@ -52,6 +113,16 @@ const ParticipantList: React.FC<ParticipantListProps> = ({ participants, onRemov
             <p>Add some names to get started!</p>
         </div>
       )}
+
+      {isGroupsOpen && (
+        <ParticipantGroupsModal
+          participants={participants}
+          onMergePeople={onMergePeople}
+          onSplitParticipant={onSplitParticipant}
+          onClose={() => setIsGroupsOpen(false)}
+          disabled={isSpinning}
+        />
+      )}
     </div>
   );
 };
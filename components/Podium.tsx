@@ -0,0 +1,56 @@
+import React from 'react';
+import { MultiDraw } from '../types';
+import { formatPlace } from '../utils/history';
+
+interface PodiumProps {
+  multiDraw: MultiDraw;
+  onRemoveWinners: () => void;
+  onDone: () => void;
+}
+
+const Podium: React.FC<PodiumProps> = ({ multiDraw, onRemoveWinners, onDone }) => {
+  const { tiers, results, status } = multiDraw;
+  const isOver = status !== 'running';
+
+  return (
+    <div className="absolute top-0 right-0 z-30 w-64 bg-gray-950/85 backdrop-blur-sm rounded-xl shadow-lg p-4 text-gray-200 animate-fade-in">
+      <h3 className="text-lg font-bold text-amber-300 mb-3">
+        {status === 'running' ? 'Drawing winners…' : status === 'finished' ? 'Final podium' : 'Draw stopped'}
+      </h3>
+      <ol className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {tiers.map((tier, index) => {
+          const result = results[index];
+          const isCurrent = status === 'running' && index === results.length;
+          return (
+            <li
+              key={tier.place}
+              className={`rounded-md px-3 py-2 ${result ? 'bg-amber-500/20' : isCurrent ? 'bg-indigo-600/30 animate-pulse' : 'bg-gray-900/60'}`}
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-semibold text-amber-200">{formatPlace(tier.place)}</span>
+                {tier.prizeName && <span className="text-xs text-gray-400 truncate">{tier.prizeName}</span>}
+              </div>
+              <p className={`truncate ${result ? 'text-white font-semibold' : 'text-gray-500'}`}>
+                {result ? result.name : isCurrent ? 'Spinning…' : '—'}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+      {isOver && (
+        <div className="flex flex-col gap-2 mt-4">
+          {results.length > 0 && (
+            <button onClick={onRemoveWinners} className="py-2 px-4 bg-red-600 hover:bg-red-700 rounded-lg text-white text-sm font-semibold transition-colors">
+              Remove Winners From List
+            </button>
+          )}
+          <button onClick={onDone} className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white text-sm font-semibold transition-colors">
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Podium;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Prize } from '../types';
+import { createPrize, formatPrizeValue, readPrizeImage } from '../utils/prizes';
+
+interface PrizeCatalogModalProps {
+  prizes: Prize[];
+  onChange: (prizes: Prize[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-gray-900 border border-gray-700 rounded-md px-3 py-1.5 text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500";
+
+const PrizeCatalogModal: React.FC<PrizeCatalogModalProps> = ({ prizes, onChange, onClose }) => {
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [imageUrl, setImageUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Give the prize a name.');
+      return;
+    }
+    onChange([...prizes, createPrize(name, Number(quantity), value.trim() ? Number(value) : undefined, imageUrl)]);
+    setName('');
+    setValue('');
+    setQuantity('1');
+    setImageUrl('');
+    setError(null);
+  };
+
+  const handleImageFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setImageUrl(await readPrizeImage(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The image could not be read.');
+    }
+  };
+
+  const updateQuantity = (prizeId: string, newQuantity: string) => {
+    onChange(prizes.map(prize => prize.id === prizeId ? { ...prize, quantity: Math.max(0, Math.floor(Number(newQuantity)) || 0) } : prize));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-lg animate-fade-in flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Prize Catalog</h2>
+        <p className="text-gray-400 mb-4 text-sm">
+          Prizes belong to the current raffle. Each award takes one out of stock.
+        </p>
+
+        {prizes.length > 0 ? (
+          <ul className="space-y-2 overflow-y-auto pr-2 min-h-0 mb-4">
+            {prizes.map(prize => (
+              <li key={prize.id} className="flex items-center gap-3 bg-gray-900/60 rounded-md px-3 py-2 text-gray-200">
+                {prize.imageUrl
+                  ? <img src={prize.imageUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                  : <div className="w-10 h-10 rounded bg-gray-800 flex-shrink-0" />}
+                <div className="min-w-0 flex-grow">
+                  <p className="font-semibold truncate">{prize.name}</p>
+                  <p className={`text-xs ${prize.quantity === 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                    {prize.value !== undefined && `${formatPrizeValue(prize.value)} · `}
+                    {prize.quantity === 0 ? 'Out of stock' : `${prize.quantity} left`}
+                  </p>
+                </div>
+                <input
+                  type="number"
+                  min={0}
+                  value={prize.quantity}
+                  onChange={(e) => updateQuantity(prize.id, e.target.value)}
+                  className={`${inputClassName} w-20`}
+                  aria-label={`Quantity of ${prize.name}`}
+                />
+                <button
+                  onClick={() => onChange(prizes.filter(p => p.id !== prize.id))}
+                  className="text-xs py-1 px-2 bg-red-600 hover:bg-red-700 rounded-md text-white font-semibold transition-colors"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500 text-sm mb-4">No prizes yet.</p>
+        )}
+
+        <form onSubmit={handleAdd} className="border-t border-gray-700 pt-4 space-y-3">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Prize name" className={`${inputClassName} w-full`} />
+          <div className="flex gap-3">
+            <input type="number" min={0} step="0.01" value={value} onChange={(e) => setValue(e.target.value)} placeholder="Value (optional)" className={`${inputClassName} flex-grow`} />
+            <input type="number" min={0} value={quantity} onChange={(e) => setQuantity(e.target.value)} className={`${inputClassName} w-24`} aria-label="Quantity" />
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              value={imageUrl.startsWith('data:') ? 'Uploaded image' : imageUrl}
+              onChange={(e) => setImageUrl(e.target.value)}
+              placeholder="Image URL (optional)"
+              className={`${inputClassName} flex-grow`}
+            />
+            <label className="text-sm py-1.5 px-3 bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 cursor-pointer transition-colors">
+              Upload
+              <input type="file" accept="image/*" className="hidden" onChange={(e) => { handleImageFile(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
+          </div>
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Close</button>
+            <button type="submit" className="py-2 px-4 bg-amber-500 hover:bg-amber-600 rounded-md text-white font-semibold transition-colors">Add Prize</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PrizeCatalogModal;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { GiftIcon } from './icons';
+import PrizeCatalogModal from './PrizeCatalogModal';
+import { Prize } from '../types';
+import { formatPrizeValue } from '../utils/prizes';
+
+interface PrizePanelProps {
+  prizes: Prize[];
+  currentPrizeId: string | null;
+  onSelectPrize: (prizeId: string | null) => void;
+  onChangePrizes: (prizes: Prize[]) => void;
+  disabled: boolean;
+}
+
+const PrizePanel: React.FC<PrizePanelProps> = ({ prizes, currentPrizeId, onSelectPrize, onChangePrizes, disabled }) => {
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+  const currentPrize = prizes.find(p => p.id === currentPrizeId) ?? null;
+  const outOfStock = prizes.filter(p => p.quantity === 0);
+
+  return (
+    <div className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm text-gray-300">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1 font-semibold text-amber-300"><GiftIcon /> Prize</span>
+        <button
+          type="button"
+          onClick={() => setIsCatalogOpen(true)}
+          disabled={disabled}
+          className="text-xs bg-amber-500 hover:bg-amber-600 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200 disabled:bg-amber-700/50 disabled:cursor-not-allowed"
+        >
+          Manage prizes
+        </button>
+      </div>
+
+      <select
+        value={currentPrize?.id ?? ''}
+        onChange={(e) => onSelectPrize(e.target.value || null)}
+        disabled={disabled}
+        className="mt-2 w-full bg-gray-900 border border-gray-700 rounded-md px-2 py-1.5 text-gray-100 focus:outline-none focus:ring-2 focus:ring-amber-500 disabled:opacity-50"
+        aria-label="Prize for the next spin"
+      >
+        <option value="">No prize</option>
+        {prizes.map(prize => (
+          <option key={prize.id} value={prize.id}>
+            {prize.name}
+            {prize.value !== undefined ? ` (${formatPrizeValue(prize.value)})` : ''}
+            {` — ${prize.quantity === 0 ? 'out of stock' : `${prize.quantity} left`}`}
+          </option>
+        ))}
+      </select>
+
+      {currentPrize?.quantity === 0 && (
+        <p className="mt-2 text-xs text-red-400">
+          {currentPrize.name} is out of stock. Pick another prize or add more stock before spinning.
+        </p>
+      )}
+      {currentPrize?.quantity === 1 && (
+        <p className="mt-2 text-xs text-amber-300">Last {currentPrize.name} in stock.</p>
+      )}
+      {outOfStock.length > 0 && currentPrize?.quantity !== 0 && (
+        <p className="mt-2 text-xs text-gray-500">Out of stock: {outOfStock.map(p => p.name).join(', ')}</p>
+      )}
+
+      {isCatalogOpen && (
+        <PrizeCatalogModal
+          prizes={prizes}
+          onChange={onChangePrizes}
+          onClose={() => setIsCatalogOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PrizePanel;
@@ -1,19 +1,40 @@
 
 import React, { useEffect, useState } from 'react';
 import Wheel from './Wheel';
+import CanvasWheel from './CanvasWheel';
+import BingoCage from './BingoCage';
+import { DrawVisualization, Participant } from '../types';
+import { Theme } from '../utils/theme';
+import { shouldUseCanvasWheel } from '../utils/wheel';
 
 interface RaffleDisplayProps {
-  participants: string[];
-  originalParticipants: string[];
-  winner: string | null;
+  participants: Participant[];
+  originalParticipants: Participant[];
+  winner: Participant | null;
   isSpinning: boolean;
   isReturning: boolean;
   onSpin: () => void;
   onStopSpin: () => void;
   onReset: () => void;
-  onRemoveWinnerEntries: (name: string | null) => void;
+  onRemoveWinnerEntries: (winner: Participant | null) => void;
+  // Replaces "The winner is..." above the name, e.g. with the place and prize.
+  winnerCaption?: string;
+  winnerPrizeImageUrl?: string;
+  // Hidden while a multi-winner draw moves on to the next place by itself.
+  showWinnerActions: boolean;
+  // Elimination mode: the person whose segment is fading off the wheel.
+  eliminatingPersonId: string | null;
+  visualization: DrawVisualization;
+  // A fixed stream resolution is active, so text sizes must not follow viewport breakpoints.
+  isCanvasLocked: boolean;
+  wheelStartHue?: number;
+  // From this many participants the wheel is drawn by CanvasWheel instead.
+  canvasWheelThreshold: number;
+  theme: Theme;
   rotation: number;
   tickCount: number;
+  // Pointer bend in degrees during a physics spin; otherwise the pointer flicks on each tick.
+  pointerDeflection?: number | null;
   isFullscreen: boolean;
 }
 
@@ -27,20 +48,30 @@ const RaffleDisplay: React.FC<RaffleDisplayProps> = ({
   onStopSpin,
   onReset,
   onRemoveWinnerEntries,
+  winnerCaption,
+  winnerPrizeImageUrl,
+  showWinnerActions,
+  eliminatingPersonId,
+  visualization,
+  isCanvasLocked,
+  wheelStartHue,
+  canvasWheelThreshold,
+  theme,
   rotation,
   tickCount,
+  pointerDeflection = null,
   isFullscreen,
 }) => {
   const [flicking, setFlicking] = useState(false);
   const [showRemoveWinnerConfirm, setShowRemoveWinnerConfirm] = useState<boolean>(false);
 
   useEffect(() => {
-    if (tickCount > 0 && isSpinning) {
+    if (tickCount > 0 && isSpinning && pointerDeflection === null) {
       setFlicking(true);
       const timer = setTimeout(() => setFlicking(false), 100);
       return () => clearTimeout(timer);
     }
-  }, [tickCount, isSpinning]);
+  }, [tickCount, isSpinning, pointerDeflection]);
 
   // When the winner is cleared (raffle is reset), also hide the confirmation modal.
   useEffect(() => {
@@ -51,6 +82,7 @@ const RaffleDisplay: React.FC<RaffleDisplayProps> = ({
 
 
   const canSpin = participants.length >= 2 && !isSpinning && !isReturning;
+  const WheelRenderer = shouldUseCanvasWheel(participants.length, canvasWheelThreshold) ? CanvasWheel : Wheel;
 
   const handleWheelClick = () => {
     if (isReturning) return;
@@ -69,22 +101,29 @@ const RaffleDisplay: React.FC<RaffleDisplayProps> = ({
         className="text-center animate-fade-in absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[84%] h-[84%] flex flex-col items-center justify-center bg-gray-950/80 backdrop-blur-sm rounded-full z-20"
         onClick={(e) => e.stopPropagation()}
       >
-        <h3 className="text-xl text-gray-400">The winner is...</h3>
-        <p className="text-5xl sm:text-7xl lg:text-8xl font-bold py-4 leading-normal text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-amber-400 animate-pulse drop-shadow-[0_0_12px_#f59e0b]">
-          {winner}
+        {winnerPrizeImageUrl && (
+          <img src={winnerPrizeImageUrl} alt="" className={`${isCanvasLocked ? 'w-28 h-28' : 'w-20 h-20 sm:w-28 sm:h-28'} object-contain rounded-lg mb-3`} />
+        )}
+        <h3 className="text-xl text-gray-400">{winnerCaption ?? 'The winner is...'}</h3>
+        <p className={`${isCanvasLocked ? 'text-7xl' : 'text-5xl sm:text-7xl lg:text-8xl'} font-bold py-4 leading-normal text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-amber-400 animate-pulse drop-shadow-[0_0_12px_#f59e0b]`} style={{ fontFamily: theme.titleFont }}>
+          {winner.name}
         </p>
-        <button
-          onClick={() => onRemoveWinnerEntries(winner)}
-          className="mt-6 py-2 px-6 bg-red-600 hover:bg-red-700 rounded-lg text-white font-semibold transition-transform duration-200 hover:scale-105"
-        >
-          Remove Winner
-        </button>
-        <button
-          onClick={() => setShowRemoveWinnerConfirm(true)}
-          className="mt-3 py-2 px-5 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-transform duration-200 hover:scale-105"
-        >
-          Spin Again
-        </button>
+        {showWinnerActions && (
+          <>
+            <button
+              onClick={() => onRemoveWinnerEntries(winner)}
+              className="mt-6 py-2 px-6 bg-red-600 hover:bg-red-700 rounded-lg text-white font-semibold transition-transform duration-200 hover:scale-105"
+            >
+              Remove Winner
+            </button>
+            <button
+              onClick={() => setShowRemoveWinnerConfirm(true)}
+              className="mt-3 py-2 px-5 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-semibold transition-transform duration-200 hover:scale-105"
+            >
+              Spin Again
+            </button>
+          </>
+        )}
       </div>
     );
   };
@@ -95,36 +134,59 @@ const RaffleDisplay: React.FC<RaffleDisplayProps> = ({
         className="relative w-full h-full flex items-center justify-center"
       >
         <div className="relative w-auto h-full" style={{ aspectRatio: '1 / 1' }}>
-          <div 
-            className={`absolute bottom-[93%] left-1/2 -translate-x-1/2 z-10 w-[clamp(4rem,12vh,8rem)]`}
-            style={{ transformOrigin: 'center 80%' }}
-          >
-            <div className={flicking ? 'is-flicking' : ''}>
-              <svg viewBox="0 0 70 85" className="drop-shadow-lg w-full h-full">
-                  <defs>
-                      <linearGradient id="pointer-gradient" x1="0%" y1="0%" x2="0%" y2="100%">
-                          <stop offset="0%" style={{stopColor: '#cbd5e1', stopOpacity: 1}} />
-                          <stop offset="50%" style={{stopColor: '#f1f5f9', stopOpacity: 1}} />
-                          <stop offset="100%" style={{stopColor: '#64748b', stopOpacity: 1}} />
-                      </linearGradient>
-                      <filter id="pointer-shadow" x="-50%" y="-50%" width="200%" height="200%">
-                          <feDropShadow dx="0" dy="4" stdDeviation="4" floodColor="#000" floodOpacity="0.4"/>
-                      </filter>
-                  </defs>
-                  <path d="M35 85 L5 40 C 5 20, 65 20, 65 40 Z" fill="url(#pointer-gradient)" filter="url(#pointer-shadow)" />
-              </svg>
+          {visualization === 'wheel' && (
+            <div 
+              className={`absolute bottom-[93%] left-1/2 -translate-x-1/2 z-10 ${isCanvasLocked ? 'w-[14%]' : 'w-[clamp(4rem,12vh,8rem)]'}`}
+              style={{ transformOrigin: 'center 80%' }}
+            >
+              {/* A peg pushes the tip along with the wheel, turning the pointer anticlockwise about its head */}
+              <div
+                className={flicking ? 'is-flicking' : ''}
+                style={pointerDeflection !== null ? { transform: `rotate(${-pointerDeflection}deg)`, transformOrigin: 'center 35%' } : undefined}
+              >
+                <svg viewBox="0 0 70 85" className="drop-shadow-lg w-full h-full">
+                    <defs>
+                        <linearGradient id="pointer-gradient" x1="0%" y1="0%" x2="0%" y2="100%">
+                            {/* Lit from above: a highlight and a shade of the theme's pointer colour */}
+                            <stop offset="0%" style={{stopColor: theme.pointerColor, stopOpacity: 1}} />
+                            <stop offset="50%" style={{stopColor: `color-mix(in srgb, ${theme.pointerColor} 30%, white)`, stopOpacity: 1}} />
+                            <stop offset="100%" style={{stopColor: `color-mix(in srgb, ${theme.pointerColor} 50%, black)`, stopOpacity: 1}} />
+                        </linearGradient>
+                        <filter id="pointer-shadow" x="-50%" y="-50%" width="200%" height="200%">
+                            <feDropShadow dx="0" dy="4" stdDeviation="4" floodColor="#000" floodOpacity="0.4"/>
+                        </filter>
+                    </defs>
+                    <path d="M35 85 L5 40 C 5 20, 65 20, 65 40 Z" fill="url(#pointer-gradient)" filter="url(#pointer-shadow)" />
+                </svg>
+              </div>
             </div>
-          </div>
+          )}
         
-          <Wheel 
-            participants={participants}
-            originalParticipants={originalParticipants}
-            rotation={rotation}
-            onClick={handleWheelClick}
-            clickable={canSpin || isSpinning}
-            hasWinner={!!winner}
-            isSpinning={isSpinning}
-          />
+          {visualization === 'cage' ? (
+            <BingoCage
+              participants={participants}
+              rotation={rotation}
+              onClick={handleWheelClick}
+              clickable={canSpin || isSpinning}
+              winner={winner}
+              isSpinning={isSpinning}
+              eliminatingPersonId={eliminatingPersonId}
+              theme={theme}
+            />
+          ) : (
+            <WheelRenderer
+              participants={participants}
+              originalParticipants={originalParticipants}
+              rotation={rotation}
+              onClick={handleWheelClick}
+              clickable={canSpin || isSpinning}
+              hasWinner={!!winner}
+              isSpinning={isSpinning}
+              eliminatingPersonId={eliminatingPersonId}
+              startHue={wheelStartHue}
+              theme={theme}
+            />
+          )}
           {renderWinnerOverlay()}
         </div>
       </div>
@@ -133,7 +195,7 @@ const RaffleDisplay: React.FC<RaffleDisplayProps> = ({
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={() => setShowRemoveWinnerConfirm(false)}>
             <div className="bg-gray-950 p-8 rounded-lg shadow-xl w-full max-w-sm text-center animate-fade-in" onClick={(e) => e.stopPropagation()}>
                 <h2 className="text-xl font-bold mb-4 text-gray-200">Remove Winner?</h2>
-                <p className="text-gray-400 mb-6">Do you want to remove "{winner}" from the participant list before the next spin?</p>
+                <p className="text-gray-400 mb-6">Do you want to remove "{winner.name}" from the participant list before the next spin?</p>
                 <div className="flex justify-center gap-4">
                     <button 
                         onClick={() => {
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Raffle } from '../types';
+
+interface RaffleManagerProps {
+  raffles: Raffle[];
+  activeRaffleId: string;
+  onSelect: (raffleId: string) => void;
+  onCreate: (title: string) => void;
+  onRename: (raffleId: string, title: string) => void;
+  onDelete: (raffleId: string) => void;
+  disabled: boolean;
+}
+
+type DialogMode = 'create' | 'rename' | 'delete' | null;
+
+const RaffleManager: React.FC<RaffleManagerProps> = ({ raffles, activeRaffleId, onSelect, onCreate, onRename, onDelete, disabled }) => {
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [titleText, setTitleText] = useState('');
+
+  const activeRaffle = raffles.find(r => r.id === activeRaffleId);
+
+  const openDialog = (mode: DialogMode) => {
+    setTitleText(mode === 'rename' && activeRaffle ? activeRaffle.title : '');
+    setDialogMode(mode);
+  };
+
+  const closeDialog = () => setDialogMode(null);
+
+  const handleConfirm = () => {
+    if (dialogMode === 'create') {
+      onCreate(titleText);
+    } else if (dialogMode === 'rename') {
+      onRename(activeRaffleId, titleText);
+    } else if (dialogMode === 'delete') {
+      onDelete(activeRaffleId);
+    }
+    closeDialog();
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select
+          value={activeRaffleId}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          aria-label="Current raffle"
+          className="flex-grow bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition disabled:opacity-50 min-w-[120px]"
+        >
+          {raffles.map(raffle => (
+            <option key={raffle.id} value={raffle.id}>
+              {raffle.title} ({raffle.participants.length})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => openDialog('create')}
+          disabled={disabled}
+          className="text-sm bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-3 rounded-md transition-colors duration-200 disabled:bg-indigo-800/50 disabled:cursor-not-allowed"
+        >
+          New
+        </button>
+        <button
+          type="button"
+          onClick={() => openDialog('rename')}
+          disabled={disabled}
+          className="text-sm bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={() => openDialog('delete')}
+          disabled={disabled}
+          className="text-sm bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-3 rounded-md transition-colors duration-200 disabled:bg-red-800/50 disabled:cursor-not-allowed"
+        >
+          Delete
+        </button>
+      </div>
+
+      {dialogMode && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={closeDialog}>
+          <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-sm animate-fade-in" onClick={(e) => e.stopPropagation()}>
+            {dialogMode === 'delete' ? (
+              <>
+                <h2 className="text-xl font-bold mb-4 text-gray-200">Delete Raffle?</h2>
+                <p className="text-gray-400 mb-6">
+                  "{activeRaffle?.title}" and its {activeRaffle?.participants.length ?? 0} participants will be removed. Past winners stay in the history.
+                </p>
+              </>
+            ) : (
+              <>
+                <h2 className="text-xl font-bold mb-4 text-gray-200">{dialogMode === 'create' ? 'New Raffle' : 'Rename Raffle'}</h2>
+                <input
+                  type="text"
+                  value={titleText}
+                  onChange={(e) => setTitleText(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && titleText.trim()) handleConfirm(); }}
+                  placeholder="e.g. Tournament prize"
+                  autoFocus
+                  className="w-full bg-gray-900 border border-gray-700 rounded-md px-4 py-2 mb-6 text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition"
+                />
+              </>
+            )}
+            <div className="flex justify-end gap-3">
+              <button onClick={closeDialog} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Cancel</button>
+              <button
+                onClick={handleConfirm}
+                disabled={dialogMode !== 'delete' && !titleText.trim()}
+                className={`py-2 px-4 rounded-md text-white font-semibold transition-colors disabled:opacity-50 ${dialogMode === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+              >
+                {dialogMode === 'delete' ? 'Delete' : dialogMode === 'create' ? 'Create' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RaffleManager;
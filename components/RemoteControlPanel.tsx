@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { RemoteConnectionStatus } from '../utils/remoteControl';
+
+interface RemoteControlPanelProps {
+  token: string;
+  onChangeToken: (token: string) => void;
+  status: RemoteConnectionStatus | null;
+}
+
+const STATUS_LABELS: Record<RemoteConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting…', className: 'bg-amber-400' },
+  connected: { label: 'Connected', className: 'bg-emerald-400' },
+  disconnected: { label: 'Reconnecting…', className: 'bg-amber-400' },
+  failed: { label: 'Could not connect', className: 'bg-red-500' },
+};
+
+const RemoteControlPanel: React.FC<RemoteControlPanelProps> = ({ token, onChangeToken, status }) => {
+  const [draftToken, setDraftToken] = useState(token);
+  const statusInfo = status ? STATUS_LABELS[status] : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChangeToken(draftToken.trim());
+  };
+
+  return (
+    <details className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm text-gray-300">
+      <summary className="cursor-pointer select-none flex items-center justify-between gap-2 font-semibold text-sky-300">
+        Remote control
+        {statusInfo && (
+          <span className="flex items-center gap-1 text-xs font-normal text-gray-400">
+            <span className={`w-2 h-2 rounded-full ${statusInfo.className}`} />
+            {statusInfo.label}
+          </span>
+        )}
+      </summary>
+      <p className="mt-2 text-xs text-gray-400">
+        Lets a Stream Deck or bot spin, stop, reset, add and clear through the local control API. Enter the
+        CONTROL_API_TOKEN from .env.local; see the README for the commands.
+      </p>
+      {status === 'failed' && (
+        <p className="mt-1 text-xs text-red-400">Check the token and that the app runs under npm run dev or npm run preview.</p>
+      )}
+      <form onSubmit={handleSubmit} className="mt-2 flex gap-2">
+        <input
+          type="password"
+          value={draftToken}
+          onChange={(e) => setDraftToken(e.target.value)}
+          placeholder="Control API token"
+          autoComplete="off"
+          className="flex-grow min-w-0 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-sky-500"
+        />
+        <button type="submit" className="text-xs bg-sky-600 hover:bg-sky-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200">
+          {status === 'failed' && draftToken.trim() === token ? 'Retry' : 'Connect'}
+        </button>
+        {token && (
+          <button
+            type="button"
+            onClick={() => { setDraftToken(''); onChangeToken(''); }}
+            className="text-xs bg-gray-600 hover:bg-gray-700 text-white font-semibold py-1 px-3 rounded-md transition-colors duration-200"
+          >
+            Off
+          </button>
+        )}
+      </form>
+    </details>
+  );
+};
+
+export default RemoteControlPanel;
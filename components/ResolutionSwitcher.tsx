@@ -1,7 +1,27 @@
 import React from 'react';
+import { RESOLUTION_PRESETS } from '../utils/resolution';
 
-const ResolutionSwitcher: React.FC = () => {
-  return null;
+interface ResolutionSwitcherProps {
+  // null means the layout follows the window size.
+  presetId: string | null;
+  onChange: (presetId: string | null) => void;
+}
+
+const ResolutionSwitcher: React.FC<ResolutionSwitcherProps> = ({ presetId, onChange }) => {
+  return (
+    <select
+      value={presetId ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="bg-gray-900/80 border border-gray-700 text-gray-100 font-semibold py-2 px-3 rounded-full shadow-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      aria-label="Output resolution"
+      title="Lock the layout to a stream output size"
+    >
+      <option value="">Fit window</option>
+      {RESOLUTION_PRESETS.map(preset => (
+        <option key={preset.id} value={preset.id}>{preset.label}</option>
+      ))}
+    </select>
+  );
 };
 
 export default ResolutionSwitcher;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings,
+  assignShortcut,
+  formatShortcutKey,
+  getShortcutKey,
+} from '../utils/shortcuts';
+
+interface ShortcutHelpModalProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const ShortcutHelpModal: React.FC<ShortcutHelpModalProps> = ({ bindings, onChange, onClose }) => {
+  // The action waiting for its new key, if any
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  // The app's own shortcuts are paused while this is open, so it handles every key itself
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (recording) {
+          setRecording(null);
+        } else {
+          onClose();
+        }
+        return;
+      }
+      const key = getShortcutKey(e);
+      if (!key) return;
+      e.preventDefault();
+      if (recording) {
+        onChange(assignShortcut(bindings, recording, key));
+        setRecording(null);
+      } else if (key === bindings.help) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, recording, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-md animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Keyboard Shortcuts</h2>
+        <p className="text-gray-400 mb-4 text-sm">
+          Shortcuts are off while typing in a text field. Click a key to change it, then press the new key.
+        </p>
+        <ul className="space-y-2 mb-4">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <li key={action} className="flex items-center justify-between gap-3 text-gray-200">
+              <span>{label}</span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  // Otherwise Space, as the new key, would also press this button again
+                  e.currentTarget.blur();
+                  setRecording(prev => prev === action ? null : action);
+                }}
+                className={`min-w-[4.5rem] py-1 px-3 rounded-md font-mono text-sm border transition-colors ${
+                  recording === action
+                    ? 'bg-indigo-600 border-indigo-400 text-white animate-pulse'
+                    : 'bg-gray-800 border-gray-600 hover:bg-gray-700'
+                }`}
+                aria-label={`Change the key for ${label.toLowerCase()}`}
+              >
+                {recording === action ? 'Press…' : formatShortcutKey(bindings[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => { onChange(DEFAULT_SHORTCUTS); setRecording(null); }}
+            className="py-2 px-4 bg-gray-800 hover:bg-gray-700 rounded-md text-gray-300 text-sm transition-colors"
+          >
+            Restore defaults
+          </button>
+          <button type="button" onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelpModal;
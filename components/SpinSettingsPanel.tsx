@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  DEFAULT_SPIN_SETTINGS,
+  MAX_SPIN_DURATION_MS,
+  MAX_SPIN_ROTATIONS,
+  MIN_SPIN_DURATION_MS,
+  MIN_SPIN_ROTATIONS,
+  SPIN_EASINGS,
+  SpinEasing,
+  SpinMotion,
+  SpinSettings,
+  normalizeSpinSettings,
+} from '../utils/spinEngine';
+
+interface SpinSettingsPanelProps {
+  settings: SpinSettings;
+  onChange: (settings: SpinSettings) => void;
+  disabled: boolean;
+}
+
+// Quick picks for the usual cases; the fields below fine-tune them
+const SPIN_PRESETS: { label: string; settings: Omit<SpinSettings, 'motion'> }[] = [
+  { label: 'Quick', settings: { durationMs: 5000, rotations: 6, easing: 'cubic' } },
+  { label: 'Standard', settings: { durationMs: DEFAULT_SPIN_SETTINGS.durationMs, rotations: DEFAULT_SPIN_SETTINGS.rotations, easing: DEFAULT_SPIN_SETTINGS.easing } },
+  { label: 'Grand prize', settings: { durationMs: 25000, rotations: 24, easing: 'back' } },
+];
+
+const MOTIONS: { motion: SpinMotion; label: string; hint: string }[] = [
+  { motion: 'eased', label: 'Eased', hint: 'Follows the slowdown curve exactly.' },
+  { motion: 'physics', label: 'Physics', hint: 'Friction and pegs; the pointer bends and the wheel can rock back. The duration is approximate.' },
+];
+
+const SpinSettingsPanel: React.FC<SpinSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = (changes: Partial<SpinSettings>) => onChange(normalizeSpinSettings({ ...settings, ...changes }));
+
+  return (
+    <details className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm text-gray-300">
+      <summary className="cursor-pointer select-none flex items-center justify-between gap-2 font-semibold text-indigo-300">
+        Spin
+        <span className="text-xs font-normal text-gray-400">
+          {settings.motion === 'physics' ? '~' : ''}{settings.durationMs / 1000}s · {settings.rotations} turns
+        </span>
+      </summary>
+      <fieldset disabled={disabled} className="mt-2 space-y-3 disabled:opacity-50">
+        <div>
+          <div className="flex rounded-md overflow-hidden border border-gray-700">
+            {MOTIONS.map(option => (
+              <button
+                key={option.motion}
+                type="button"
+                onClick={() => update({ motion: option.motion })}
+                className={`flex-1 text-xs font-semibold py-1 transition-colors duration-200 ${settings.motion === option.motion ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-400">{MOTIONS.find(option => option.motion === settings.motion)?.hint}</p>
+        </div>
+        <div className="flex gap-2">
+          {SPIN_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => update(preset.settings)}
+              className="flex-1 text-xs bg-gray-800 hover:bg-gray-700 text-gray-200 font-semibold py-1 px-2 rounded-md transition-colors duration-200"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <label className="block">
+          <span className="flex justify-between text-xs text-gray-400">
+            Duration <span>{settings.durationMs / 1000}s</span>
+          </span>
+          <input
+            type="range"
+            min={MIN_SPIN_DURATION_MS / 1000}
+            max={MAX_SPIN_DURATION_MS / 1000}
+            step={1}
+            value={settings.durationMs / 1000}
+            onChange={(e) => update({ durationMs: Number(e.target.value) * 1000 })}
+            className="w-full accent-indigo-500"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+          Full turns
+          <input
+            type="number"
+            min={MIN_SPIN_ROTATIONS}
+            max={MAX_SPIN_ROTATIONS}
+            value={settings.rotations}
+            onChange={(e) => update({ rotations: Number(e.target.value) })}
+            className="w-16 bg-gray-900 border border-gray-700 rounded-md px-2 py-0.5 text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+          Slowdown
+          <select
+            value={settings.easing}
+            disabled={settings.motion === 'physics'}
+            onChange={(e) => update({ easing: e.target.value as SpinEasing })}
+            className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {SPIN_EASINGS.map(option => (
+              <option key={option.easing} value={option.easing}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </fieldset>
+    </details>
+  );
+};
+
+export default SpinSettingsPanel;
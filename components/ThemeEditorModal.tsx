@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import { DEFAULT_THEME, THEME_PRESETS, Theme, isAllowedFontStylesheetUrl, parseThemeJson, serializeTheme } from '../utils/theme';
+import { downloadFile } from '../utils/download';
+
+interface ThemeEditorModalProps {
+  theme: Theme;
+  // Called on every edit, so changes show on the stage while the editor is open.
+  onChange: (theme: Theme) => void;
+  onClose: () => void;
+  // A fixed stream resolution is active, so the layout must not follow viewport breakpoints.
+  isCanvasLocked: boolean;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-1.5 text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-teal-500";
+
+// <input type="color"> only understands #rrggbb
+const toPickerValue = (color: string) => /^#[0-9a-f]{6}$/i.test(color) ? color : '#000000';
+
+type TextKey = { [K in keyof Theme]: Theme[K] extends string ? K : never }[keyof Theme];
+type ListKey = { [K in keyof Theme]: Theme[K] extends string[] ? K : never }[keyof Theme];
+
+const TEXT_FIELDS: { key: TextKey; label: string; placeholder?: string }[] = [
+  { key: 'name', label: 'Theme name' },
+  { key: 'title', label: 'Title' },
+  { key: 'subtitle', label: 'Subtitle', placeholder: 'Leave empty to hide' },
+  { key: 'logoUrl', label: 'Logo URL', placeholder: 'Leave empty to hide' },
+  { key: 'backgroundImageUrl', label: 'Background image URL', placeholder: 'Leave empty for a plain colour' },
+  { key: 'fontStylesheetUrl', label: 'Font stylesheet URL', placeholder: 'e.g. a Google Fonts link' },
+  { key: 'titleFont', label: 'Title font' },
+  { key: 'bodyFont', label: 'Body font' },
+  { key: 'wheelFont', label: 'Wheel font' },
+];
+
+const COLOR_FIELDS: { key: TextKey; label: string }[] = [
+  { key: 'titleColor', label: 'Title' },
+  { key: 'titleGlowColor', label: 'Title glow' },
+  { key: 'subtitleColor', label: 'Subtitle' },
+  { key: 'pointerColor', label: 'Pointer' },
+  { key: 'frameColor', label: 'Wheel frame' },
+  { key: 'frameEdgeColor', label: 'Frame edge' },
+  { key: 'hubColor', label: 'Hub centre' },
+  { key: 'lightsColor', label: 'Lights' },
+  { key: 'winnerLightsColor', label: 'Winner lights' },
+  { key: 'backgroundColor', label: 'Background' },
+];
+
+const LIST_FIELDS: { key: ListKey; label: string; hint: string }[] = [
+  { key: 'palette', label: 'Segment colours', hint: 'Used in list order; more are generated once they run out.' },
+  { key: 'confettiColors', label: 'Confetti colours', hint: 'Picked at random for each piece.' },
+];
+
+const ThemeEditorModal: React.FC<ThemeEditorModalProps> = ({ theme, onChange, onClose, isCanvasLocked }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = <K extends keyof Theme>(key: K, value: Theme[K]) => onChange({ ...theme, [key]: value });
+
+  const updateListColor = (key: ListKey, index: number, color: string) => {
+    update(key, theme[key].map((existing, i) => i === index ? color : existing));
+  };
+
+  const removeListColor = (key: ListKey, index: number) => {
+    if (theme[key].length > 1) update(key, theme[key].filter((_, i) => i !== index));
+  };
+
+  const handleExport = () => {
+    const slug = theme.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'theme';
+    downloadFile(`${slug}.theme.json`, serializeTheme(theme), 'application/json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(parseThemeJson(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The theme could not be read.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-2xl animate-fade-in flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Theme</h2>
+        <p className="text-gray-400 mb-4 text-sm">
+          Changes apply straight away, here and in audience windows. Export a theme to share it with a partner.
+        </p>
+
+        <div className="overflow-y-auto pr-2 min-h-0 space-y-5 text-sm text-gray-300">
+          <section>
+            <h3 className="font-semibold text-gray-200 mb-2">Presets</h3>
+            <div className="flex flex-wrap gap-2">
+              {THEME_PRESETS.map(preset => (
+                <button
+                  key={preset.name}
+                  type="button"
+                  onClick={() => onChange(preset)}
+                  className={`flex items-center gap-2 py-1.5 px-3 rounded-md border transition-colors ${theme.name === preset.name ? 'border-teal-400 bg-teal-900/40' : 'border-gray-700 bg-gray-900 hover:bg-gray-800'}`}
+                >
+                  <span className="flex">
+                    {preset.palette.slice(0, 4).map((color, i) => (
+                      <span key={i} className="w-3 h-3 rounded-full -ml-1 first:ml-0 border border-gray-950" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className={`grid ${isCanvasLocked ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2'} gap-3`}>
+            {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+              <label key={key} className="block">
+                <span className="text-xs text-gray-400">{label}</span>
+                <input
+                  type="text"
+                  value={theme[key]}
+                  onChange={(e) => update(key, e.target.value)}
+                  placeholder={placeholder}
+                  className={inputClassName}
+                />
+                {key === 'fontStylesheetUrl' && theme.fontStylesheetUrl && !isAllowedFontStylesheetUrl(theme.fontStylesheetUrl) && (
+                  <span className="block text-xs text-amber-400 mt-1">Only https links to Google Fonts, Bunny Fonts or Adobe Fonts are loaded.</span>
+                )}
+              </label>
+            ))}
+          </section>
+
+          <section>
+            <h3 className="font-semibold text-gray-200 mb-2">Colours</h3>
+            <div className={`grid ${isCanvasLocked ? 'grid-cols-4' : 'grid-cols-2 sm:grid-cols-4'} gap-3`}>
+              {COLOR_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={toPickerValue(theme[key])}
+                    onChange={(e) => update(key, e.target.value)}
+                    className="w-8 h-8 bg-transparent border-0 cursor-pointer"
+                  />
+                  <span className="text-xs">{label}</span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {LIST_FIELDS.map(({ key, label, hint }) => (
+            <section key={key}>
+              <h3 className="font-semibold text-gray-200">{label}</h3>
+              <p className="text-xs text-gray-400 mb-2">{hint}</p>
+              <div className="flex flex-wrap items-center gap-2">
+                {theme[key].map((color, index) => (
+                  <span key={index} className="relative group">
+                    <input
+                      type="color"
+                      value={toPickerValue(color)}
+                      onChange={(e) => updateListColor(key, index, e.target.value)}
+                      className="w-9 h-9 bg-transparent border-0 cursor-pointer"
+                      aria-label={`${label} ${index + 1}`}
+                    />
+                    {theme[key].length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeListColor(key, index)}
+                        className="absolute -top-1 -right-1 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-red-600 text-white text-[10px] leading-none"
+                        aria-label={`Remove ${label.toLowerCase()} ${index + 1}`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => update(key, [...theme[key], theme[key][theme[key].length - 1]])}
+                  className="w-9 h-9 rounded-md border border-dashed border-gray-600 text-gray-400 hover:text-gray-200 hover:border-gray-400 transition-colors"
+                  aria-label={`Add a ${label.toLowerCase().replace(/s$/, '')}`}
+                >
+                  +
+                </button>
+              </div>
+            </section>
+          ))}
+        </div>
+
+        {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+        <div className="flex flex-wrap justify-between gap-3 mt-4">
+          <div className="flex gap-2">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 text-sm transition-colors">Import</button>
+            <button type="button" onClick={handleExport} className="py-2 px-4 bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 text-sm transition-colors">Export</button>
+            <button type="button" onClick={() => onChange(DEFAULT_THEME)} className="py-2 px-4 bg-gray-800 hover:bg-gray-700 rounded-md text-gray-300 text-sm transition-colors">Reset</button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </div>
+          <button type="button" onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditorModal;
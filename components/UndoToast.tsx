@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  // Changes whenever a new toast is shown, restarting the dismiss timer.
+  toastId: number;
+  message: string;
+  actionLabel: string;
+  // Without an action the toast is a plain notice.
+  onAction?: () => void;
+  // While the list can't change, e.g. mid-draw
+  actionDisabled?: boolean;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 6000;
+
+const UndoToast: React.FC<UndoToastProps> = ({ toastId, message, actionLabel, onAction, actionDisabled = false, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toastId, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 animate-fade-in" role="status">
+      <div className="flex items-center gap-4 bg-gray-950/95 text-gray-100 rounded-lg shadow-xl px-5 py-3">
+        <span>{message}</span>
+        {onAction && (
+          <button
+            onClick={onAction}
+            disabled={actionDisabled}
+            className="font-semibold text-indigo-300 hover:text-indigo-200 transition-colors disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            {actionLabel}
+          </button>
+        )}
+        <button onClick={onDismiss} className="text-gray-500 hover:text-gray-300 transition-colors" aria-label="Dismiss">
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { createFairDraw, parseParticipants } from '../utils/fairness';
+
+interface VerifyDrawModalProps {
+  onClose: () => void;
+  initialSeed?: string;
+  initialList?: string;
+  initialCommitment?: string;
+}
+
+interface VerificationResult {
+  winnerName: string;
+  winnerIndex: number;
+  offsetFraction: number;
+  commitment: string;
+  commitmentMatches: boolean | null;
+}
+
+const VerifyDrawModal: React.FC<VerifyDrawModalProps> = ({ onClose, initialSeed = '', initialList = '', initialCommitment = '' }) => {
+  const [seed, setSeed] = useState(initialSeed);
+  const [listText, setListText] = useState(initialList);
+  const [commitment, setCommitment] = useState(initialCommitment);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    setResult(null);
+    setError(null);
+    try {
+      const participants = parseParticipants(listText.trim());
+      if (participants.length === 0) {
+        throw new Error('The participant list is empty.');
+      }
+      const draw = await createFairDraw(participants, seed.trim());
+      const expectedCommitment = commitment.trim().toLowerCase();
+      setResult({
+        winnerName: participants[draw.winnerIndex].name,
+        winnerIndex: draw.winnerIndex,
+        offsetFraction: draw.offsetFraction,
+        commitment: draw.commitment,
+        commitmentMatches: expectedCommitment ? expectedCommitment === draw.commitment : null,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-950 p-6 rounded-lg shadow-xl w-full max-w-lg animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-2 text-gray-200">Verify Draw</h2>
+        <p className="text-gray-400 mb-4 text-sm">Paste the revealed seed and the participant list that was shown before the spin. The same inputs always produce the same winner.</p>
+        <label className="block text-sm text-gray-300 mb-1">Seed</label>
+        <input
+          type="text"
+          value={seed}
+          onChange={(e) => setSeed(e.target.value)}
+          className="w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 mb-3 text-gray-200 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500 transition"
+        />
+        <label className="block text-sm text-gray-300 mb-1">Participant list</label>
+        <textarea
+          value={listText}
+          onChange={(e) => setListText(e.target.value)}
+          className="w-full h-28 bg-gray-900 border border-gray-700 rounded-md p-3 mb-3 text-gray-200 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500 transition"
+          placeholder={`[["Alice",1],["Bob",3]]`}
+        />
+        <label className="block text-sm text-gray-300 mb-1">Commitment (optional)</label>
+        <input
+          type="text"
+          value={commitment}
+          onChange={(e) => setCommitment(e.target.value)}
+          className="w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-gray-200 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-emerald-500 transition"
+        />
+
+        {error && <p className="mt-4 text-red-400 text-sm">{error}</p>}
+        {result && (
+          <div className="mt-4 bg-gray-900/70 rounded-md p-3 text-sm text-gray-300 space-y-1">
+            <p>Winner: <span className="font-bold text-amber-300">{result.winnerName}</span> (position {result.winnerIndex + 1})</p>
+            <p>Landing point in segment: {(result.offsetFraction * 100).toFixed(2)}%</p>
+            <p className="break-all font-mono text-xs">Commitment: {result.commitment}</p>
+            {result.commitmentMatches !== null && (
+              <p className={result.commitmentMatches ? 'text-emerald-400' : 'text-red-400'}>
+                {result.commitmentMatches ? 'Commitment matches the published hash.' : 'Commitment does NOT match the published hash.'}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-700 rounded-md text-gray-200 transition-colors">Close</button>
+          <button onClick={handleVerify} className="py-2 px-4 bg-emerald-600 hover:bg-emerald-700 rounded-md text-white font-semibold transition-colors disabled:bg-emerald-800/50" disabled={!seed.trim() || !listText.trim()}>Verify</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyDrawModal;
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface WaveTitleProps {
+  text: string;
+  className: string;
+  style?: React.CSSProperties;
+}
+
+// Title whose letters light up one after another
+const WaveTitle: React.FC<WaveTitleProps> = ({ text, className, style }) => (
+  <h1 className={className} style={style}>
+    {text.split('').map((char, index) => (
+      <span
+        key={index}
+        className="wave-letter"
+        style={{ animationDelay: `${index * 0.1}s` }}
+      >
+        {char === ' ' ? '\u00A0' : char}
+      </span>
+    ))}
+  </h1>
+);
+
+export default WaveTitle;
@@ -1,90 +1,50 @@
-import React, { useMemo, useState, useEffect } from 'react';
-
-interface WheelProps {
-  participants: string[];
-  originalParticipants: string[];
+import React, { useMemo } from 'react';
+import { Participant } from '../types';
+import { getSegmentArcs } from '../utils/wheel';
+import { Theme, getSegmentColor } from '../utils/theme';
+import WheelLights from './WheelLights';
+
+// Shared by the SVG wheel and CanvasWheel, so either can be swapped in.
+export interface WheelProps {
+  participants: Participant[];
+  originalParticipants: Participant[];
   rotation: number;
   onClick: () => void;
   clickable: boolean;
   hasWinner: boolean;
   isSpinning: boolean;
+  // Entries of this person fade out before they are taken off the wheel.
+  eliminatingPersonId?: string | null;
+  // Hue the generated colours start from; random per page load unless given, so mirrored windows can match.
+  startHue?: number;
+  theme: Theme;
 }
 
-const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipants, onClick, clickable, hasWinner, isSpinning }) => {
+const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipants, onClick, clickable, hasWinner, isSpinning, eliminatingPersonId, startHue, theme }) => {
   const numParticipants = participants.length;
 
-  const segmentAngle = numParticipants > 0 ? 360 / numParticipants : 0;
+  // Each segment's arc is proportional to that participant's entry count
+  const segmentArcs = useMemo(() => getSegmentArcs(participants), [participants]);
   const radius = 420;
   const center = 500;
 
   // By memoizing the random start hue, it remains constant for the lifetime of the component,
   // ensuring that the color sequence is stable during re-renders (like wheel spinning),
   // but it will be different every time the page is loaded.
-  const [randomStartHue] = useMemo(() => [Math.random() * 360], []);
+  const [randomStartHue] = useMemo(() => [startHue ?? Math.random() * 360], [startHue]);
   
-  // NEW: State to manage the two-stage winner animation
-  const [winnerAnimationStage, setWinnerAnimationStage] = useState<'initial' | 'random' | 'none'>('none');
-
-  // Effect to control the winner animation sequence
-  useEffect(() => {
-    if (hasWinner) {
-      // Stage 1: Start the initial, synchronized blink
-      setWinnerAnimationStage('initial');
-      
-      // After the initial blink animation is complete (1.8s), switch to the random twinkling
-      const timer = setTimeout(() => {
-        setWinnerAnimationStage('random');
-      }, 1800);
-
-      // Cleanup timer if the component unmounts or `hasWinner` changes
-      return () => clearTimeout(timer);
-    } else {
-      // Reset the animation stage if there's no winner
-      setWinnerAnimationStage('none');
-    }
-  }, [hasWinner]);
-
-
   // Memoize the segments and text to prevent recalculation on every render during spin
   const segments = useMemo(() => {
     
-    // Create a color generation function inside useMemo to ensure stable colors for a given participant list.
-    const getColorForIndex = (idx: number): string => {
-      // Specific rule for 2 participants: blue and red
-      if (numParticipants === 2) {
-        return idx === 0 ? '#3b82f6' : '#ef4444';
-      }
-      
-      // Specific rules for the first seven participants
-      if (idx === 0) return '#3b82f6'; // name 1: blue
-      if (idx === 1) return '#ef4444'; // name 2: red
-      if (idx === 2) return '#eab308'; // name 3: yellow
-      if (idx === 3) return '#22c55e'; // name 4: green
-      if (idx === 4) return '#8b5cf6'; // name 5: purple
-      if (idx === 5) return '#ec4899'; // name 6: pink
-      if (idx === 6) return '#f97316'; // name 7: orange
-
-      // For all other participants (from the 8th onwards), generate unique colors
-      // to avoid any repetition, no matter how many participants are added.
-      const effectiveIndex = idx - 7;
-      
-      // We use the golden angle approximation (137.5 degrees) to ensure that
-      // each new color is placed in the largest remaining gap in the color spectrum,
-      // creating a pleasant, non-clashing, and infinitely varied palette.
-      // The starting hue for this sequence is randomized on each page load.
-      const hue = (randomStartHue + effectiveIndex * 137.5) % 360;
-
-      // We also alternate saturation and lightness slightly to increase visual distinction.
-      const saturation = effectiveIndex % 2 === 0 ? 80 : 70;
-      const lightness = effectiveIndex % 2 === 0 ? 55 : 60;
-
-      return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-    };
+    // Theme colours first, in list order, then generated ones. With two participants the
+    // first and second colours face off, whatever their place in the full list.
+    const getColorForIndex = (idx: number): string =>
+      getSegmentColor(theme.palette, numParticipants === 2 ? Math.min(idx, 1) : idx, randomStartHue);
 
     // Special case for a single participant: display a full colored wheel with centered text
     if (numParticipants === 1) {
-      const participant = participants[0];
-      const originalIndex = originalParticipants.findIndex(p => p === participant);
+      const participant = participants[0].name;
+      const originalIndex = originalParticipants.findIndex(p => p.id === participants[0].id);
       const colorIndex = originalIndex !== -1 ? originalIndex : 0;
       const fillColor = getColorForIndex(colorIndex);
       
@@ -111,7 +71,7 @@ const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipa
           dy: "0.35em",
           fill: "white",
           fontSize: fontSize,
-          fontFamily: "Comic Sans MS, sans-serif",
+          fontFamily: theme.wheelFont,
           fontWeight: "700",
           textAnchor: "middle",
           className: "select-none tracking-wide",
@@ -133,13 +93,13 @@ const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipa
       )];
     }
 
-    return participants.map((participant, index) => {
+    return participants.map(({ id, name: participant, personId }, index) => {
       // Find the participant's original index to get a stable color
-      const originalIndex = originalParticipants.findIndex(p => p === participant);
+      const originalIndex = originalParticipants.findIndex(p => p.id === id);
       const colorIndex = originalIndex !== -1 ? originalIndex : index; // Use original index for color
 
-      const startAngle = segmentAngle * index;
-      const endAngle = startAngle + segmentAngle;
+      const { startAngle, endAngle } = segmentArcs[index];
+      const segmentAngle = endAngle - startAngle;
 
       const startRad = (startAngle - 90) * Math.PI / 180;
       const endRad = (endAngle - 90) * Math.PI / 180;
@@ -176,7 +136,7 @@ const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipa
           dy: "0.35em",
           fill: "white",
           fontSize: fontSize,
-          fontFamily: "Comic Sans MS, sans-serif",
+          fontFamily: theme.wheelFont,
           fontWeight: "400",
           textAnchor: "middle",
           className: "select-none tracking-wide",
@@ -196,7 +156,7 @@ const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipa
       }
 
       return (
-        <g key={index}>
+        <g key={id} className={personId === eliminatingPersonId ? 'segment-eliminating' : undefined}>
           <path d={pathData} fill={fillColor} stroke="none" />
            { numParticipants > 1 &&
             <line 
@@ -215,80 +175,28 @@ const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipa
         </g>
       );
     });
-  }, [participants, segmentAngle, numParticipants, randomStartHue, originalParticipants]);
-
-  // Memoize the lights to prevent re-calculating random animation delays on every frame.
-  // This ensures the blinking animation remains consistent while the wheel is spinning.
-  const lights = useMemo(() => {
-    const lightElements = [];
-    const numLights = 36;
-    const animationDuration = 2.3484; // Controls the speed of the wave effect
-
-    // Sequential delays to create a wave effect
-    const waveDelays = Array.from({ length: numLights }, (_, i) => 
-        (i / numLights) * animationDuration
-    );
-
-    const lightSegmentAngle = 360 / numLights;
-    for (let i = 0; i < numLights; i++) {
-        if (i === 0) continue; // Skip the light bulb at the top under the pointer
-        
-        const lightAngle = lightSegmentAngle * i;
-        const lightAngleRad = (lightAngle - 90) * Math.PI / 180;
-        const lightRadius = 460;
-        const lightPos = { x: center + Math.cos(lightAngleRad) * lightRadius, y: center + Math.sin(lightAngleRad) * lightRadius };
-        
-        // Determine the class and style based on the wheel's state
-        let bulbClassName = 'pre-lit-ball';
-        let bulbStyle: React.CSSProperties = {};
-
-        if (isSpinning && !hasWinner) {
-          bulbClassName = 'wave-light-ball';
-          bulbStyle = { animationDelay: `${waveDelays[i]}s` };
-        } else if (hasWinner) {
-          // Check which stage of the winner animation we are in
-          if (winnerAnimationStage === 'initial') {
-            bulbClassName = 'winner-initial-blink-ball';
-            // No style/delay needed, they all blink together
-          } else if (winnerAnimationStage === 'random') {
-            bulbClassName = 'winner-blinking-ball';
-            bulbStyle = { animationDelay: `${Math.random() * 1.2}s` };
-          }
-        }
-
-        lightElements.push(
-            <circle
-                key={`light-${i}`}
-                cx={lightPos.x}
-                cy={lightPos.y}
-                r="14"
-                className={bulbClassName}
-                style={bulbStyle}
-            />
-        );
-    }
-    return lightElements;
-  }, [hasWinner, isSpinning, winnerAnimationStage]);
+  }, [participants, segmentArcs, numParticipants, randomStartHue, originalParticipants, eliminatingPersonId, theme.palette, theme.wheelFont]);
 
-  // Memoize the pegs based on participant count
+  // Memoize the pegs based on the segment boundaries
   const pegs = useMemo(() => {
     const pegElements = [];
     for (let i = 0; i < numParticipants; i++) {
-        const pegAngle = segmentAngle * i;
+        const pegAngle = segmentArcs[i].startAngle;
         const pegAngleRad = (pegAngle - 90) * Math.PI / 180;
         const pegRadius = 430;
         const pegPos = { x: center + Math.cos(pegAngleRad) * pegRadius, y: center + Math.sin(pegAngleRad) * pegRadius };
         pegElements.push(<circle key={`peg-${i}`} cx={pegPos.x} cy={pegPos.y} r="10" fill="url(#metallic-peg-gradient)" />);
     }
     return pegElements;
-  }, [numParticipants, segmentAngle]);
+  }, [numParticipants, segmentArcs]);
 
   return (
     <svg viewBox="0 0 1000 1000" className="w-full h-full">
       <g>
-        <circle cx="500" cy="500" r="500" fill="#35200d" />
-        <circle cx="500" cy="500" r="496" fill="#40260f" />
-        {lights}
+        <circle cx="500" cy="500" r="500" fill={theme.frameEdgeColor} />
+        <circle cx="500" cy="500" r="496" fill={theme.frameColor} />
+        <circle cx="500" cy="500" r="500" fill="none" stroke="black" strokeOpacity="0.2" strokeWidth="8" />
+        <WheelLights hasWinner={hasWinner} isSpinning={isSpinning} />
       </g>
       
       <g 
@@ -319,8 +227,8 @@ const Wheel: React.FC<WheelProps> = ({ participants, rotation, originalParticipa
       />
       
       <g>
-          <circle cx="500" cy="500" r="40" fill="#40260f" />
-          <circle cx="500" cy="500" r="35" fill="#3e2711" />
+          <circle cx="500" cy="500" r="40" fill={theme.frameColor} />
+          <circle cx="500" cy="500" r="35" fill={theme.hubColor} />
           <circle cx="500" cy="500" r="10" fill="url(#metallic-center-gradient)" />
       </g>
 
@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+interface WheelLightsProps {
+  hasWinner: boolean;
+  isSpinning: boolean;
+}
+
+const center = 500;
+
+// The ring of bulbs on the wheel's rim, in the wheel's 1000×1000 SVG coordinates. Shared by
+// the SVG and canvas wheels; the glass-bulb-gradient they fill with is defined by each wheel.
+const WheelLights: React.FC<WheelLightsProps> = ({ hasWinner, isSpinning }) => {
+  // NEW: State to manage the two-stage winner animation
+  const [winnerAnimationStage, setWinnerAnimationStage] = useState<'initial' | 'random' | 'none'>('none');
+
+  // Effect to control the winner animation sequence
+  useEffect(() => {
+    if (hasWinner) {
+      // Stage 1: Start the initial, synchronized blink
+      setWinnerAnimationStage('initial');
+
+      // After the initial blink animation is complete (1.8s), switch to the random twinkling
+      const timer = setTimeout(() => {
+        setWinnerAnimationStage('random');
+      }, 1800);
+
+      // Cleanup timer if the component unmounts or `hasWinner` changes
+      return () => clearTimeout(timer);
+    } else {
+      // Reset the animation stage if there's no winner
+      setWinnerAnimationStage('none');
+    }
+  }, [hasWinner]);
+
+  // Memoize the lights to prevent re-calculating random animation delays on every frame.
+  // This ensures the blinking animation remains consistent while the wheel is spinning.
+  const lights = useMemo(() => {
+    const lightElements = [];
+    const numLights = 36;
+    const animationDuration = 2.3484; // Controls the speed of the wave effect
+
+    // Sequential delays to create a wave effect
+    const waveDelays = Array.from({ length: numLights }, (_, i) =>
+        (i / numLights) * animationDuration
+    );
+
+    const lightSegmentAngle = 360 / numLights;
+    for (let i = 0; i < numLights; i++) {
+        if (i === 0) continue; // Skip the light bulb at the top under the pointer
+
+        const lightAngle = lightSegmentAngle * i;
+        const lightAngleRad = (lightAngle - 90) * Math.PI / 180;
+        const lightRadius = 460;
+        const lightPos = { x: center + Math.cos(lightAngleRad) * lightRadius, y: center + Math.sin(lightAngleRad) * lightRadius };
+
+        // Determine the class and style based on the wheel's state
+        let bulbClassName = 'pre-lit-ball';
+        let bulbStyle: React.CSSProperties = {};
+
+        if (isSpinning && !hasWinner) {
+          bulbClassName = 'wave-light-ball';
+          bulbStyle = { animationDelay: `${waveDelays[i]}s` };
+        } else if (hasWinner) {
+          // Check which stage of the winner animation we are in
+          if (winnerAnimationStage === 'initial') {
+            bulbClassName = 'winner-initial-blink-ball';
+            // No style/delay needed, they all blink together
+          } else if (winnerAnimationStage === 'random') {
+            bulbClassName = 'winner-blinking-ball';
+            bulbStyle = { animationDelay: `${Math.random() * 1.2}s` };
+          }
+        }
+
+        lightElements.push(
+            <circle
+                key={`light-${i}`}
+                cx={lightPos.x}
+                cy={lightPos.y}
+                r="14"
+                className={bulbClassName}
+                style={bulbStyle}
+            />
+        );
+    }
+    return lightElements;
+  }, [hasWinner, isSpinning, winnerAnimationStage]);
+
+  return <>{lights}</>;
+};
+
+export default WheelLights;
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MAX_CANVAS_WHEEL_THRESHOLD,
+  MIN_CANVAS_WHEEL_THRESHOLD,
+  normalizeCanvasWheelThreshold,
+  shouldUseCanvasWheel,
+} from '../utils/wheel';
+
+interface WheelRendererPanelProps {
+  threshold: number;
+  onChange: (threshold: number) => void;
+  participantCount: number;
+}
+
+const WheelRendererPanel: React.FC<WheelRendererPanelProps> = ({ threshold, onChange, participantCount }) => {
+  const usesCanvas = shouldUseCanvasWheel(participantCount, threshold);
+  // Typed text, applied on blur or Enter, so a half-typed number doesn't switch renderers
+  const [draft, setDraft] = useState(String(threshold));
+
+  useEffect(() => {
+    setDraft(String(threshold));
+  }, [threshold]);
+
+  const applyDraft = () => {
+    const value = draft.trim() === '' ? threshold : normalizeCanvasWheelThreshold(Number(draft));
+    setDraft(String(value));
+    if (value !== threshold) onChange(value);
+  };
+
+  return (
+    <details className="mt-4 bg-gray-900/50 rounded-md p-3 text-sm text-gray-300">
+      <summary className="cursor-pointer select-none flex items-center justify-between gap-2 font-semibold text-indigo-300">
+        Wheel rendering
+        <span className="text-xs font-normal text-gray-400">{usesCanvas ? 'Canvas' : 'SVG'}</span>
+      </summary>
+      <div className="mt-2 space-y-2">
+        <p className="text-xs text-gray-400">
+          Big wheels are drawn on a canvas, which stays smooth with hundreds of names and looks the same as the
+          SVG wheel used below this count.
+        </p>
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+          Canvas from
+          <span className="flex items-center gap-2">
+            <input
+              type="number"
+              min={MIN_CANVAS_WHEEL_THRESHOLD}
+              max={MAX_CANVAS_WHEEL_THRESHOLD}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={applyDraft}
+              onKeyDown={(e) => { if (e.key === 'Enter') applyDraft(); }}
+              className="w-20 bg-gray-900 border border-gray-700 rounded-md px-2 py-0.5 text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            participants
+          </span>
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default WheelRendererPanel;
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TrashIcon } from './icons';
+import { WinnerHistoryEntry, WinnerHistoryFilters } from '../types';
+import {
+  EMPTY_HISTORY_FILTERS,
+  filterWinnerHistory,
+  formatPlace,
+  getRaffleTitle,
+  parseWinnerHistoryJson,
+  toWinnerHistoryCsv,
+  toWinnerHistoryJson,
+} from '../utils/history';
+import { downloadFile } from '../utils/download';
+import { formatPrizeValue } from '../utils/prizes';
+
+interface WinnerHistoryModalProps {
+  winnerHistory: WinnerHistoryEntry[];
+  onDeleteEntry: (entryId: string) => void;
+  onUpdateNote: (entryId: string, note: string) => void;
+  onImport: (entries: WinnerHistoryEntry[]) => number;
+  onClose: () => void;
+  // A fixed stream resolution is active, so the layout must not follow viewport breakpoints.
+  isCanvasLocked: boolean;
+}
+
+const PAGE_SIZE = 15;
+
+const WinnerHistoryModal: React.FC<WinnerHistoryModalProps> = ({ winnerHistory, onDeleteEntry, onUpdateNote, onImport, onClose, isCanvasLocked }) => {
+  const [filters, setFilters] = useState<WinnerHistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const filterSpan = isCanvasLocked ? 'col-span-1' : 'col-span-2 sm:col-span-1';
+  const [page, setPage] = useState(0);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const raffleTitles = useMemo(
+    () => Array.from(new Set(winnerHistory.map(getRaffleTitle))).sort((a, b) => a.localeCompare(b)),
+    [winnerHistory]
+  );
+  const filteredHistory = useMemo(() => filterWinnerHistory(winnerHistory, filters), [winnerHistory, filters]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredHistory.length / PAGE_SIZE));
+  const pageEntries = filteredHistory.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  // Go back to the first page whenever the filters change
+  useEffect(() => {
+    setPage(0);
+  }, [filters]);
+
+  // Don't strand the view on an empty page after deleting its last entry
+  useEffect(() => {
+    if (page > pageCount - 1) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  const updateFilter = (key: keyof WinnerHistoryFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const startEditingNote = (entry: WinnerHistoryEntry) => {
+    setEditingNoteId(entry.id);
+    setNoteText(entry.note ?? '');
+  };
+
+  const saveNote = () => {
+    if (editingNoteId) onUpdateNote(editingNoteId, noteText);
+    setEditingNoteId(null);
+  };
+
+  // Exports whatever the current filters show; with no filters that is the whole history
+  const handleExport = (format: 'csv' | 'json') => {
+    const entries = [...filteredHistory].reverse();
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(`winner-history-${date}.csv`, toWinnerHistoryCsv(entries), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`winner-history-${date}.json`, toWinnerHistoryJson(entries), 'application/json');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const entries = parseWinnerHistoryJson(await file.text());
+      const added = onImport(entries);
+      setImportMessage(`Imported ${added} of ${entries.length} winners${added < entries.length ? ' (the rest were already in the history)' : ''}.`);
+    } catch (err) {
+      setImportMessage(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const inputClassName = "bg-amber-50 border border-amber-400 rounded-md px-3 py-1.5 text-amber-900 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-amber-200 p-6 rounded-lg shadow-xl w-full max-w-3xl animate-fade-in flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-bold text-amber-900">Winner History</h2>
+          <div className="flex gap-2">
+            <button onClick={() => handleExport('csv')} disabled={filteredHistory.length === 0} className="text-xs py-1 px-3 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors disabled:opacity-50">Export CSV</button>
+            <button onClick={() => handleExport('json')} disabled={filteredHistory.length === 0} className="text-xs py-1 px-3 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors disabled:opacity-50">Export JSON</button>
+            <button onClick={() => fileInputRef.current?.click()} className="text-xs py-1 px-3 bg-amber-500 hover:bg-amber-600 rounded-md text-white font-semibold transition-colors">Import JSON</button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+          </div>
+        </div>
+        {importMessage && <p className="mb-3 text-sm text-purple-800">{importMessage}</p>}
+
+        <div className={`grid ${isCanvasLocked ? 'grid-cols-4' : 'grid-cols-2 sm:grid-cols-4'} gap-2 mb-4`}>
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => updateFilter('search', e.target.value)}
+            placeholder="Search winner, prize or note..."
+            className={`${inputClassName} ${filterSpan}`}
+          />
+          <select value={filters.raffleTitle} onChange={(e) => updateFilter('raffleTitle', e.target.value)} className={`${inputClassName} ${filterSpan}`} aria-label="Filter by raffle">
+            <option value="">All raffles</option>
+            {raffleTitles.map(title => <option key={title} value={title}>{title}</option>)}
+          </select>
+          <input type="date" value={filters.fromDate} onChange={(e) => updateFilter('fromDate', e.target.value)} className={inputClassName} aria-label="From date" />
+          <input type="date" value={filters.toDate} onChange={(e) => updateFilter('toDate', e.target.value)} className={inputClassName} aria-label="To date" />
+        </div>
+
+        {pageEntries.length > 0 ? (
+          <ul className="space-y-2 overflow-y-auto pr-2 flex-grow min-h-0">
+            {pageEntries.map(entry => (
+              <li key={entry.id} className="bg-amber-100 rounded-md px-3 py-2 text-amber-900">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">
+                      {entry.winnerName}
+                      {(entry.place !== undefined || entry.prizeName) && (
+                        <span className="ml-2 text-xs font-normal text-purple-800">
+                          {[
+                            entry.place !== undefined ? `${formatPlace(entry.place)} place` : '',
+                            entry.prizeName ?? '',
+                            entry.prizeValue !== undefined ? formatPrizeValue(entry.prizeValue) : '',
+                          ].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-purple-800">
+                      {getRaffleTitle(entry)} · {new Date(entry.timestamp).toLocaleString()}
+                      {entry.participantCount !== undefined && ` · ${entry.participantCount} participants`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button onClick={() => startEditingNote(entry)} className="text-xs py-1 px-2 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors">
+                      {entry.note ? 'Edit note' : 'Add note'}
+                    </button>
+                    {pendingDeleteId === entry.id ? (
+                      <>
+                        <button onClick={() => { onDeleteEntry(entry.id); setPendingDeleteId(null); }} className="text-xs py-1 px-2 bg-red-600 hover:bg-red-700 rounded-md text-white font-semibold transition-colors">Delete</button>
+                        <button onClick={() => setPendingDeleteId(null)} className="text-xs py-1 px-2 bg-gray-500 hover:bg-gray-600 rounded-md text-white transition-colors">Keep</button>
+                      </>
+                    ) : (
+                      <button onClick={() => setPendingDeleteId(entry.id)} className="text-amber-700 hover:text-red-600 transition-colors" aria-label={`Delete ${entry.winnerName} from history`}>
+                        <TrashIcon />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {editingNoteId === entry.id ? (
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      value={noteText}
+                      onChange={(e) => setNoteText(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') saveNote(); }}
+                      placeholder="e.g. Re-drawn, winner was not eligible"
+                      autoFocus
+                      className={`${inputClassName} flex-grow`}
+                    />
+                    <button onClick={saveNote} className="text-xs py-1 px-3 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors">Save</button>
+                    <button onClick={() => setEditingNoteId(null)} className="text-xs py-1 px-3 bg-gray-500 hover:bg-gray-600 rounded-md text-white transition-colors">Cancel</button>
+                  </div>
+                ) : entry.note && (
+                  <p className="mt-1 text-sm italic text-amber-800">{entry.note}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-amber-700">
+            {winnerHistory.length > 0 ? 'No winners match these filters.' : 'No winners have been recorded yet.'}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between mt-6 gap-3">
+          <div className="flex items-center gap-2 text-sm text-amber-900">
+            <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="py-1 px-3 bg-amber-500 hover:bg-amber-600 rounded-md text-white font-semibold transition-colors disabled:opacity-50">Prev</button>
+            <span>Page {page + 1} of {pageCount} · {filteredHistory.length} winners</span>
+            <button onClick={() => setPage(p => p + 1)} disabled={page >= pageCount - 1} className="py-1 px-3 bg-amber-500 hover:bg-amber-600 rounded-md text-white font-semibold transition-colors disabled:opacity-50">Next</button>
+          </div>
+          <button onClick={onClose} className="py-2 px-4 bg-purple-600 hover:bg-purple-700 rounded-md text-white font-semibold transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WinnerHistoryModal;
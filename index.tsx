@@ -2,15 +2,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AudienceDisplay from './components/AudienceDisplay';
+import { parseDisplayOptions } from './utils/display';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Audience and overlay windows follow the control window instead of running the app themselves
+const displayOptions = parseDisplayOptions(window.location.search);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {displayOptions ? <AudienceDisplay options={displayOptions} /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,206 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import type { Connect, Plugin, PreviewServer, ViteDevServer } from 'vite';
+import { RemoteCommand, RemoteEvent, RemoteMessage, RemoteRole, parseDisplayMessage, parseRemoteCommand } from '../utils/remoteControl';
+import { acceptWebSocket, isWebSocketUpgrade, rejectUpgrade } from './websocket';
+
+// Local control API for Stream Deck buttons and bots, served by `vite` and `vite preview`.
+// REST:      POST /api/spin | /api/stop | /api/reset | /api/clear, POST /api/participants, GET /api/status
+// WebSocket: /api/ws, receives events and accepts the same commands as JSON messages; with
+//            ?role=display it mirrors the control window's stage for display windows instead
+// Every request needs the CONTROL_API_TOKEN, as "Authorization: Bearer <token>" or "?token=<token>".
+// Commands are carried out by the open control window, so the draw still happens in one place.
+
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// The control window's display state carries the whole participant list.
+const MAX_APP_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+interface WebSocketClient {
+  send: (message: RemoteMessage) => void;
+  close: () => void;
+  role: RemoteRole;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+const isAuthorized = (expected: string, req: IncomingMessage, url: URL): boolean => {
+  const header = req.headers.authorization ?? '';
+  const given = header.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token') ?? '';
+  // Compare fixed-length hashes so the check takes the same time whatever was sent
+  return timingSafeEqual(hashToken(given), hashToken(expected));
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+    if (body.length > MAX_MESSAGE_BYTES) {
+      reject(new Error('Request body is too large.'));
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch {
+      reject(new Error('Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const REST_COMMANDS: Record<string, RemoteCommand['command']> = {
+  '/spin': 'spin',
+  '/stop': 'stop',
+  '/reset': 'reset',
+  '/clear': 'clear',
+  '/participants': 'add',
+};
+
+const createControlHub = (token: string) => {
+  const clients = new Set<WebSocketClient>();
+  const sendTo = (role: RemoteRole, message: RemoteMessage) => {
+    clients.forEach(client => client.role === role && client.send(message));
+  };
+  const hasApp = () => Array.from(clients).some(client => client.role === 'app');
+
+  const broadcastStatus = () => sendTo('client', { type: 'status', appConnected: hasApp() });
+
+  // Hands a command to the control window(s); false when none is connected
+  const dispatch = (command: RemoteCommand): boolean => {
+    sendTo('app', { type: 'command', ...command });
+    return hasApp();
+  };
+
+  const publish = (event: RemoteEvent) => sendTo('client', { type: 'event', ...event });
+
+  const handleRest: Connect.NextHandleFunction = async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === '/ws') return next();
+    if (!isAuthorized(token, req, url)) {
+      sendJson(res, 401, { error: 'Missing or wrong token.' });
+      return;
+    }
+    if (req.method === 'GET' && url.pathname === '/status') {
+      sendJson(res, 200, { appConnected: hasApp() });
+      return;
+    }
+    const commandName = REST_COMMANDS[url.pathname];
+    if (!commandName) return next();
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Use POST.' });
+      return;
+    }
+
+    let body: unknown = {};
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJson(res, 400, { error: error instanceof Error ? error.message : 'Bad request.' });
+      return;
+    }
+    const command = parseRemoteCommand({ ...(body && typeof body === 'object' ? body : {}), command: commandName });
+    if (!command) {
+      sendJson(res, 400, { error: 'Expected a JSON body like {"name": "Alice", "entries": 2}.' });
+      return;
+    }
+    if (!dispatch(command)) {
+      sendJson(res, 503, { error: 'No control window is connected.' });
+      return;
+    }
+    sendJson(res, 202, { ok: true, command: command.command });
+  };
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/api/ws') return; // Vite's own HMR socket and anything else
+    if (!isAuthorized(token, req, url) || !isWebSocketUpgrade(req)) {
+      rejectUpgrade(socket, '401 Unauthorized');
+      return;
+    }
+
+    const requestedRole = url.searchParams.get('role');
+    const role: RemoteRole = requestedRole === 'app' || requestedRole === 'display' ? requestedRole : 'client';
+    const handleMessage = (text: string) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        client.send({ type: 'error', message: 'Messages must be JSON.' });
+        return;
+      }
+      if (role === 'app') {
+        // The control window reports what happened; pass it on to everyone listening
+        const event = message as { type?: string; message?: unknown } & RemoteEvent;
+        if (event.type === 'event') {
+          const { type, ...rest } = event;
+          publish(rest as RemoteEvent);
+        } else if (event.type === 'sync') {
+          sendTo('display', message as RemoteMessage);
+        } else if (event.type === 'error' && typeof event.message === 'string') {
+          sendTo('client', { type: 'error', message: event.message });
+        }
+        return;
+      }
+      if (role === 'display') {
+        const syncMessage = parseDisplayMessage((message as { message?: unknown }).message);
+        if (syncMessage) sendTo('app', { type: 'sync', message: syncMessage });
+        return;
+      }
+      const command = parseRemoteCommand(message);
+      if (!command) {
+        client.send({ type: 'error', message: 'Unknown command.' });
+      } else if (!dispatch(command)) {
+        client.send({ type: 'error', message: 'No control window is connected.' });
+      }
+    };
+    const maxMessageBytes = role === 'app' ? MAX_APP_MESSAGE_BYTES : MAX_MESSAGE_BYTES;
+    const connection = acceptWebSocket(req, socket, handleMessage, () => {
+      clients.delete(client);
+      if (role === 'app') broadcastStatus();
+    }, maxMessageBytes);
+    const client: WebSocketClient = {
+      role,
+      send: (message) => connection.send(JSON.stringify(message)),
+      close: connection.close,
+    };
+    clients.add(client);
+    if (role === 'app') {
+      broadcastStatus();
+    } else if (role === 'client') {
+      client.send({ type: 'status', appConnected: hasApp() });
+    }
+  };
+
+  return { handleRest, handleUpgrade };
+};
+
+const disabledApi: Connect.NextHandleFunction = (_req, res) => {
+  sendJson(res, 503, { error: 'The control API is off. Set CONTROL_API_TOKEN in .env.local and restart.' });
+};
+
+export const controlApiPlugin = (token: string | undefined): Plugin => {
+  const hub = token ? createControlHub(token) : null;
+
+  const attach = (server: ViteDevServer | PreviewServer) => {
+    server.middlewares.use('/api', hub ? hub.handleRest : disabledApi);
+    if (hub) {
+      server.httpServer?.on('upgrade', hub.handleUpgrade);
+    } else {
+      server.config.logger.info('  Control API is off; set CONTROL_API_TOKEN in .env.local to turn it on.');
+    }
+  };
+
+  return {
+    name: 'prize-wheel-control-api',
+    configureServer: attach,
+    configurePreviewServer: attach,
+  };
+};
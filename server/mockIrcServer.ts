@@ -0,0 +1,119 @@
+import { createServer } from 'http';
+import { createInterface } from 'readline';
+import { acceptWebSocket, isWebSocketUpgrade, rejectUpgrade } from './websocket';
+import type { WebSocketConnection } from './websocket';
+
+// Local stand-in for Twitch chat, for trying out chat entries without going live.
+// Run `npm run mock-irc`, connect the Chat entries panel to ws://localhost:6680 and type chat
+// lines here, e.g.
+//   alice !join
+//   bob +sub +followed=30 !join
+//   mods +mod !open
+// +sub, +mod and +followed=<days> set the matching tags; a line starting with @ or : is sent as is.
+
+const PORT = Number(process.env.MOCK_IRC_PORT) || 6680;
+const SERVER_NAME = 'tmi.twitch.tv';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ChatClient {
+  connection: WebSocketConnection;
+  nick: string;
+  channels: Set<string>;
+}
+
+const clients = new Set<ChatClient>();
+
+const escapeTagValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\:').replace(/ /g, '\\s').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+
+const handleLine = (client: ChatClient, line: string) => {
+  const [command, ...args] = line.split(' ');
+  switch (command.toUpperCase()) {
+    case 'CAP':
+      client.connection.send(`:${SERVER_NAME} CAP * ACK :${line.split(':').slice(1).join(':')}`);
+      break;
+    case 'PASS':
+      break;
+    case 'NICK':
+      client.nick = (args[0] ?? 'guest').toLowerCase();
+      client.connection.send(`:${SERVER_NAME} 001 ${client.nick} :Welcome, GLHF!`);
+      break;
+    case 'JOIN':
+      args[0]?.split(',').forEach(channel => {
+        client.channels.add(channel.toLowerCase());
+        client.connection.send(`:${client.nick}!${client.nick}@${client.nick}.${SERVER_NAME} JOIN ${channel.toLowerCase()}`);
+        console.log(`${client.nick} joined ${channel}`);
+      });
+      break;
+    case 'PING':
+      client.connection.send(`:${SERVER_NAME} PONG ${SERVER_NAME} ${args.join(' ')}`);
+      break;
+  }
+};
+
+// Builds a tagged PRIVMSG from a typed line like "bob +sub +followed=30 !join".
+const buildChatLine = (line: string, channel: string): string | null => {
+  const words = line.trim().split(/\s+/);
+  const login = words.shift()?.toLowerCase();
+  if (!login) return null;
+  const tags: Record<string, string> = {
+    'display-name': login.charAt(0).toUpperCase() + login.slice(1),
+    'user-id': login,
+    subscriber: '0',
+    mod: '0',
+  };
+  const badges: string[] = [];
+  while (words[0]?.startsWith('+')) {
+    const flag = words.shift()!.slice(1);
+    if (flag === 'sub') {
+      tags.subscriber = '1';
+      badges.push('subscriber/1');
+    } else if (flag === 'mod') {
+      tags.mod = '1';
+      badges.push('moderator/1');
+    } else if (flag.startsWith('followed=')) {
+      tags['followed-at'] = new Date(Date.now() - Number(flag.slice(9)) * DAY_MS).toISOString();
+    }
+  }
+  tags.badges = badges.join(',');
+  const tagText = Object.entries(tags).map(([key, value]) => `${key}=${escapeTagValue(value)}`).join(';');
+  return `@${tagText} :${login}!${login}@${login}.${SERVER_NAME} PRIVMSG ${channel} :${words.join(' ')}`;
+};
+
+const server = createServer((_req, res) => {
+  res.statusCode = 426;
+  res.end('Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  if (!isWebSocketUpgrade(req)) {
+    rejectUpgrade(socket, '400 Bad Request');
+    return;
+  }
+  const client: ChatClient = {
+    nick: 'guest',
+    channels: new Set(),
+    connection: acceptWebSocket(
+      req,
+      socket,
+      text => text.split('\r\n').filter(Boolean).forEach(line => handleLine(client, line)),
+      () => {
+        clients.delete(client);
+        console.log(`${client.nick} disconnected`);
+      }
+    ),
+  };
+  clients.add(client);
+});
+
+createInterface({ input: process.stdin }).on('line', line => {
+  if (!line.trim()) return;
+  clients.forEach(client => client.channels.forEach(channel => {
+    const raw = line.startsWith('@') || line.startsWith(':') ? line : buildChatLine(line, channel);
+    if (raw) client.connection.send(raw);
+  }));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock IRC server on ws://localhost:${PORT}; type chat lines like "alice +sub !join".`);
+});
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+// Just enough WebSocket server for the control API and the mock chat server, without a dependency.
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+export interface WebSocketConnection {
+  send: (text: string) => void;
+  close: () => void;
+}
+
+export const isWebSocketUpgrade = (req: IncomingMessage): boolean =>
+  req.headers.upgrade?.toLowerCase() === 'websocket' && typeof req.headers['sec-websocket-key'] === 'string';
+
+export const rejectUpgrade = (socket: Duplex, status: string) => {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+};
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Minimal RFC 6455 server side: text messages, ping/pong and close. Clients must mask their frames.
+export const acceptWebSocket = (
+  req: IncomingMessage,
+  socket: Duplex,
+  onMessage: (text: string) => void,
+  onClose: () => void,
+  maxMessageBytes = MAX_MESSAGE_BYTES
+): WebSocketConnection => {
+  const accept = createHash('sha1').update(`${req.headers['sec-websocket-key']}${WEBSOCKET_GUID}`).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let isOpen = true;
+
+  const close = () => {
+    if (!isOpen) return;
+    isOpen = false;
+    socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    onClose();
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    while (buffered.length >= 2) {
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > maxMessageBytes) {
+        close();
+        return;
+      }
+      if (buffered.length < offset + 4 + length) return;
+
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffered = buffered.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        close();
+        return;
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      } else if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          onMessage(text);
+        }
+      }
+    }
+  });
+  socket.on('close', () => {
+    if (isOpen) {
+      isOpen = false;
+      onClose();
+    }
+  });
+  socket.on('error', () => socket.destroy());
+
+  return {
+    send: (text) => {
+      if (isOpen) socket.write(encodeFrame(0x1, Buffer.from(text, 'utf8')));
+    },
+    close,
+  };
+};
@@ -0,0 +1,112 @@
+// Where a participant entry came from.
+export type ParticipantSource = 'manual' | 'list' | 'file' | 'chat';
+
+export interface Participant {
+  // Stable per entry, so identical display names never get mixed up.
+  id: string;
+  // Display name, shown on the wheel and in the list.
+  name: string;
+  // Number of tickets this person holds; their wheel segment and odds scale with it.
+  entries: number;
+  // Social or sign-up handle, shown next to the name in the list.
+  handle?: string;
+  // Entries that share a personId belong to the same person; "Remove Winner" removes all of them.
+  personId: string;
+  source: ParticipantSource;
+  tags: string[];
+}
+
+// A participant as it arrives from an import, before defaults are filled in.
+export interface ParticipantDraft {
+  name: string;
+  entries?: number;
+  handle?: string;
+  source?: ParticipantSource;
+  tags?: string[];
+}
+
+export interface Prize {
+  id: string;
+  name: string;
+  // Optional monetary value, in whatever currency the raffle uses.
+  value?: number;
+  // How many are left to give away; awarding one takes it down by one.
+  quantity: number;
+  // Web address or data URL of a picture shown with the winner.
+  imageUrl?: string;
+}
+
+// How the draw is shown: the classic wheel or a tumbling bingo cage.
+export type DrawVisualization = 'wheel' | 'cage';
+
+export interface Raffle {
+  id: string;
+  title: string;
+  participants: Participant[];
+  prizes: Prize[];
+  // The prize the next spin is for; null when spinning without a prize.
+  currentPrizeId: string | null;
+}
+
+export interface WinnerHistoryEntry {
+  id: string;
+  winnerName: string;
+  raffleTitle: string;
+  timestamp: number;
+  // How many people were on the wheel for this draw; missing on entries saved before it was tracked.
+  participantCount?: number;
+  // Set for multi-winner draws: 1 for first place, 2 for second, and so on.
+  place?: number;
+  prizeName?: string;
+  prizeValue?: number;
+  note?: string;
+  // Present when the draw was made in provably fair (commit-reveal) mode.
+  seed?: string;
+  commitment?: string;
+}
+
+export interface FairDraw {
+  seed: string;
+  // SHA-256 of the seed together with the ordered participant list, shown before the spin.
+  commitment: string;
+  participantsList: string;
+  winnerIndex: number;
+  // Where inside the winner's segment the pointer lands, from 0 to 1.
+  offsetFraction: number;
+}
+
+export interface PrizeTier {
+  place: number;
+  // Optional; an empty name means the place has no named prize.
+  prizeName: string;
+  // Set when the prize comes from the raffle's catalog, so its stock goes down when awarded.
+  prizeId?: string;
+}
+
+export interface MultiDraw {
+  tiers: PrizeTier[];
+  // Winners so far, in place order.
+  results: Participant[];
+  status: 'running' | 'finished' | 'stopped';
+  // True between spins, once the previous winner has left the pool.
+  awaitingSpin: boolean;
+}
+
+export interface Elimination {
+  // Knocked-out participants in the order they left the wheel.
+  order: Participant[];
+  // The participant whose segment is being animated off the wheel right now.
+  eliminating: Participant | null;
+  status: 'running' | 'finished' | 'stopped';
+  // Wheel size when the round began, saved as the survivor's participant count.
+  startingCount: number;
+}
+
+export interface WinnerHistoryFilters {
+  search: string;
+  // Empty string matches every raffle.
+  raffleTitle: string;
+  // Inclusive calendar dates in YYYY-MM-DD form; empty means unbounded.
+  fromDate: string;
+  toDate: string;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ChatMessage,
+  DEFAULT_CHAT_SETTINGS,
+  getChatEntryAction,
+  getChatEntryRejection,
+  isChatCommand,
+  normalizeChatSettings,
+  parseIrcMessage,
+  toChatMessage,
+} from './chat';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-01T12:00:00Z');
+
+// As Twitch sends them, with the twitch.tv/tags capability on
+const SUBSCRIBER_LINE =
+  '@badge-info=subscriber/8;badges=broadcaster/1,subscriber/6;color=#1E90FF;display-name=Ronni;emotes=;' +
+  'id=b34ccfc7-4977-403a-8a94-33c6bac34fb8;mod=0;room-id=1337;subscriber=1;tmi-sent-ts=1507246572675;turbo=0;' +
+  'user-id=1337;user-type= :ronni!ronni@ronni.tmi.twitch.tv PRIVMSG #ronni :!join please';
+const VIEWER_LINE =
+  '@badges=;color=;display-name=;emotes=;mod=0;subscriber=0;user-id=42;user-type= ' +
+  ':Viewer42!viewer42@viewer42.tmi.twitch.tv PRIVMSG #ronni :!JOIN';
+const ESCAPED_LINE =
+  '@display-name=Tag\\sFan;msg-param-note=semi\\:colon\\sback\\\\slash\\nnew\\rline;trailing=end\\;user-id=7 ' +
+  ':tagfan!tagfan@tagfan.tmi.twitch.tv PRIVMSG #ronni :!join';
+
+const chatMessage = (line: string): ChatMessage => {
+  const irc = parseIrcMessage(line);
+  const message = irc && toChatMessage(irc);
+  if (!message) throw new Error(`Not a chat message: ${line}`);
+  return message;
+};
+
+describe('parseIrcMessage', () => {
+  it('splits tags, prefix, command and params', () => {
+    const message = parseIrcMessage(SUBSCRIBER_LINE);
+    expect(message?.command).toBe('PRIVMSG');
+    expect(message?.prefix).toBe('ronni!ronni@ronni.tmi.twitch.tv');
+    expect(message?.params).toEqual(['#ronni', '!join please']);
+    expect(message?.tags['badges']).toBe('broadcaster/1,subscriber/6');
+    expect(message?.tags['emotes']).toBe('');
+    expect(message?.tags['user-type']).toBe('');
+  });
+
+  it('unescapes tag values', () => {
+    const tags = parseIrcMessage(ESCAPED_LINE)?.tags;
+    expect(tags?.['display-name']).toBe('Tag Fan');
+    expect(tags?.['msg-param-note']).toBe('semi;colon back\\slash\nnew\rline');
+    // A lone trailing backslash is dropped
+    expect(tags?.['trailing']).toBe('end');
+  });
+
+  it('reads lines without tags or prefix', () => {
+    expect(parseIrcMessage('PING :tmi.twitch.tv')).toEqual({ tags: {}, prefix: '', command: 'PING', params: ['tmi.twitch.tv'] });
+    expect(parseIrcMessage(':tmi.twitch.tv 001 justinfan12345 :Welcome, GLHF!')).toEqual({
+      tags: {},
+      prefix: 'tmi.twitch.tv',
+      command: '001',
+      params: ['justinfan12345', 'Welcome, GLHF!'],
+    });
+  });
+
+  it('rejects empty and cut-off lines', () => {
+    expect(parseIrcMessage('')).toBeNull();
+    expect(parseIrcMessage('@badges=')).toBeNull();
+    expect(parseIrcMessage(':tmi.twitch.tv')).toBeNull();
+  });
+});
+
+describe('toChatMessage', () => {
+  it('reads the viewer from the tags and prefix', () => {
+    expect(chatMessage(SUBSCRIBER_LINE)).toEqual({
+      login: 'ronni',
+      displayName: 'Ronni',
+      userId: '1337',
+      text: '!join please',
+      isSubscriber: true,
+      isModerator: true,
+      followedAt: null,
+    });
+  });
+
+  it('falls back to the login for an empty display name', () => {
+    const message = chatMessage(VIEWER_LINE);
+    expect(message.login).toBe('viewer42');
+    expect(message.displayName).toBe('viewer42');
+    expect(message.isSubscriber).toBe(false);
+    expect(message.isModerator).toBe(false);
+  });
+
+  it('falls back to the login for the user id without tags', () => {
+    const message = chatMessage(':plain!plain@plain.tmi.twitch.tv PRIVMSG #ronni :!join');
+    expect(message.userId).toBe('plain');
+    expect(message.displayName).toBe('plain');
+  });
+
+  it('takes subscriber and moderator status from badges or flags', () => {
+    expect(chatMessage('@badges=founder/0 :a!a@a PRIVMSG #c :hi').isSubscriber).toBe(true);
+    expect(chatMessage('@badges=moderator/1 :a!a@a PRIVMSG #c :hi').isModerator).toBe(true);
+    expect(chatMessage('@mod=1;subscriber=1 :a!a@a PRIVMSG #c :hi')).toMatchObject({ isModerator: true, isSubscriber: true });
+  });
+
+  it('reads the follow date as an ISO date or epoch milliseconds', () => {
+    expect(chatMessage('@followed-at=2026-09-01T00:00:00Z :a!a@a PRIVMSG #c :hi').followedAt).toBe(Date.parse('2026-09-01T00:00:00Z'));
+    expect(chatMessage('@followed-at=1700000000000 :a!a@a PRIVMSG #c :hi').followedAt).toBe(1700000000000);
+    expect(chatMessage('@followed-at=soon :a!a@a PRIVMSG #c :hi').followedAt).toBeNull();
+  });
+
+  it('ignores everything but PRIVMSG', () => {
+    const join = parseIrcMessage(':viewer!viewer@viewer.tmi.twitch.tv JOIN #ronni');
+    expect(join && toChatMessage(join)).toBeNull();
+  });
+});
+
+describe('isChatCommand', () => {
+  it('matches the first word, ignoring case and spacing', () => {
+    expect(isChatCommand('  !JOIN me', '!join')).toBe(true);
+    expect(isChatCommand('please !join', '!join')).toBe(false);
+    expect(isChatCommand('!joined', '!join')).toBe(false);
+    expect(isChatCommand('!join', '  ')).toBe(false);
+  });
+});
+
+describe('getChatEntryRejection', () => {
+  const viewer = { ...chatMessage(VIEWER_LINE), followedAt: NOW - 10 * DAY_MS };
+
+  it('lets anyone in by default', () => {
+    expect(getChatEntryRejection(viewer, DEFAULT_CHAT_SETTINGS, NOW)).toBeNull();
+  });
+
+  it('keeps non-subscribers out of subscriber-only entries', () => {
+    const settings = { ...DEFAULT_CHAT_SETTINGS, subscribersOnly: true };
+    expect(getChatEntryRejection(viewer, settings, NOW)).toBe('subscribers only');
+    expect(getChatEntryRejection(chatMessage(SUBSCRIBER_LINE), settings, NOW)).toBeNull();
+  });
+
+  it('requires the follower age when set', () => {
+    const settings = { ...DEFAULT_CHAT_SETTINGS, minFollowDays: 30 };
+    expect(getChatEntryRejection(viewer, settings, NOW)).toBe('followed less than 30 days ago');
+    expect(getChatEntryRejection({ ...viewer, followedAt: NOW - 30 * DAY_MS }, settings, NOW)).toBeNull();
+    expect(getChatEntryRejection({ ...viewer, followedAt: null }, settings, NOW)).toBe('follow date unknown');
+  });
+});
+
+describe('getChatEntryAction', () => {
+  const viewer = chatMessage(VIEWER_LINE);
+  const moderator = chatMessage(SUBSCRIBER_LINE);
+  const none = new Set<string>();
+
+  it('enters a viewer who types the keyword while entries are open', () => {
+    expect(getChatEntryAction(viewer, DEFAULT_CHAT_SETTINGS, true, none, NOW)).toEqual({ type: 'enter' });
+  });
+
+  it('ignores the keyword while entries are closed, and other messages', () => {
+    expect(getChatEntryAction(viewer, DEFAULT_CHAT_SETTINGS, false, none, NOW)).toEqual({ type: 'ignore' });
+    expect(getChatEntryAction({ ...viewer, text: 'hello chat' }, DEFAULT_CHAT_SETTINGS, true, none, NOW)).toEqual({ type: 'ignore' });
+  });
+
+  it('enters each account once', () => {
+    expect(getChatEntryAction(viewer, DEFAULT_CHAT_SETTINGS, true, new Set([viewer.userId]), NOW)).toEqual({ type: 'ignore' });
+    // A new display name on the same account is still the same account
+    expect(getChatEntryAction({ ...viewer, displayName: 'Renamed' }, DEFAULT_CHAT_SETTINGS, true, new Set(['42']), NOW)).toEqual({ type: 'ignore' });
+  });
+
+  it('gives the reason when the rules turn a viewer away', () => {
+    const settings = { ...DEFAULT_CHAT_SETTINGS, subscribersOnly: true };
+    expect(getChatEntryAction(viewer, settings, true, none, NOW)).toEqual({ type: 'reject', reason: 'subscribers only' });
+  });
+
+  it('lets only moderators open and close entries', () => {
+    expect(getChatEntryAction({ ...moderator, text: '!open' }, DEFAULT_CHAT_SETTINGS, false, none, NOW)).toEqual({ type: 'open' });
+    expect(getChatEntryAction({ ...moderator, text: '!Close now' }, DEFAULT_CHAT_SETTINGS, true, none, NOW)).toEqual({ type: 'close' });
+    expect(getChatEntryAction({ ...viewer, text: '!open' }, DEFAULT_CHAT_SETTINGS, false, none, NOW)).toEqual({ type: 'ignore' });
+  });
+});
+
+describe('normalizeChatSettings', () => {
+  it('fills missing or mistyped settings from the defaults', () => {
+    expect(normalizeChatSettings(null)).toEqual(DEFAULT_CHAT_SETTINGS);
+    const settings = normalizeChatSettings({ channel: 'ronni', keyword: 42, minFollowDays: -3.5, subscribersOnly: true });
+    expect(settings).toEqual({ ...DEFAULT_CHAT_SETTINGS, channel: 'ronni', subscribersOnly: true, minFollowDays: 0 });
+  });
+});
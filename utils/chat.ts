@@ -0,0 +1,268 @@
+// IRC chat connector for collecting raffle entries from stream chat. Speaks the IRC-over-WebSocket
+// flavour Twitch uses (wss://irc-ws.chat.twitch.tv), including its IRCv3 message tags, and works
+// the same against the local mock server in server/mockIrcServer.ts.
+
+export interface IrcMessage {
+  tags: Record<string, string>;
+  // "nick!user@host" or a server name; empty when the line has no prefix.
+  prefix: string;
+  command: string;
+  params: string[];
+}
+
+export interface ChatMessage {
+  // Lower-case login name, unique per account.
+  login: string;
+  displayName: string;
+  // Account id from the user-id tag, falling back to the login.
+  userId: string;
+  text: string;
+  isSubscriber: boolean;
+  // Moderators and the broadcaster can open and close entries.
+  isModerator: boolean;
+  // When the user followed the channel, from a followed-at tag; null when the tag is missing.
+  followedAt: number | null;
+}
+
+export interface ChatEntrySettings {
+  serverUrl: string;
+  channel: string;
+  // Leave the username and token empty to read chat anonymously.
+  username: string;
+  oauthToken: string;
+  keyword: string;
+  openCommand: string;
+  closeCommand: string;
+  subscribersOnly: boolean;
+  // 0 turns the follower-age rule off.
+  minFollowDays: number;
+}
+
+export const DEFAULT_CHAT_SETTINGS: ChatEntrySettings = {
+  serverUrl: 'wss://irc-ws.chat.twitch.tv:443',
+  channel: '',
+  username: '',
+  oauthToken: '',
+  keyword: '!join',
+  openCommand: '!open',
+  closeCommand: '!close',
+  subscribersOnly: false,
+  minFollowDays: 0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Restores the characters IRCv3 escapes inside tag values.
+const unescapeTagValue = (value: string): string =>
+  value.replace(/\\(.?)/g, (_, char: string) => {
+    switch (char) {
+      case ':': return ';';
+      case 's': return ' ';
+      case 'r': return '\r';
+      case 'n': return '\n';
+      default: return char;
+    }
+  });
+
+// Parses one IRC line (without its CRLF); returns null for an empty or malformed line.
+export const parseIrcMessage = (line: string): IrcMessage | null => {
+  let rest = line.trim();
+  const tags: Record<string, string> = {};
+  let prefix = '';
+
+  if (rest.startsWith('@')) {
+    const end = rest.indexOf(' ');
+    if (end === -1) return null;
+    rest.slice(1, end).split(';').forEach(tag => {
+      const separator = tag.indexOf('=');
+      if (separator === -1) {
+        tags[tag] = '';
+      } else {
+        tags[tag.slice(0, separator)] = unescapeTagValue(tag.slice(separator + 1));
+      }
+    });
+    rest = rest.slice(end + 1).trimStart();
+  }
+  if (rest.startsWith(':')) {
+    const end = rest.indexOf(' ');
+    if (end === -1) return null;
+    prefix = rest.slice(1, end);
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  const params: string[] = [];
+  const trailingStart = rest.indexOf(' :');
+  const trailing = trailingStart === -1 ? null : rest.slice(trailingStart + 2);
+  const middle = (trailingStart === -1 ? rest : rest.slice(0, trailingStart)).split(' ').filter(Boolean);
+  const command = middle.shift();
+  if (!command) return null;
+  params.push(...middle);
+  if (trailing !== null) params.push(trailing);
+  return { tags, prefix, command: command.toUpperCase(), params };
+};
+
+// Accepts an ISO date or epoch milliseconds.
+const parseTimestamp = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+};
+
+// Turns a PRIVMSG into a chat message; returns null for anything else.
+export const toChatMessage = (message: IrcMessage): ChatMessage | null => {
+  if (message.command !== 'PRIVMSG' || message.params.length < 2) return null;
+  const login = message.prefix.split('!')[0].toLowerCase();
+  if (!login) return null;
+  const { tags } = message;
+  const badges = (tags.badges ?? '').split(',').map(badge => badge.split('/')[0]);
+  return {
+    login,
+    displayName: tags['display-name'] || login,
+    userId: tags['user-id'] || login,
+    text: message.params[message.params.length - 1],
+    isSubscriber: tags.subscriber === '1' || badges.includes('subscriber') || badges.includes('founder'),
+    isModerator: tags.mod === '1' || badges.includes('moderator') || badges.includes('broadcaster'),
+    followedAt: parseTimestamp(tags['followed-at']),
+  };
+};
+
+// The first word of a message, compared case-insensitively with a keyword or command.
+export const isChatCommand = (text: string, command: string): boolean =>
+  !!command.trim() && text.trim().split(/\s+/)[0].toLowerCase() === command.trim().toLowerCase();
+
+// Why a viewer can't enter, or null when the entry rules allow it.
+export const getChatEntryRejection = (message: ChatMessage, settings: ChatEntrySettings, now: number = Date.now()): string | null => {
+  if (settings.subscribersOnly && !message.isSubscriber) return 'subscribers only';
+  if (settings.minFollowDays > 0) {
+    if (message.followedAt === null) return 'follow date unknown';
+    if (now - message.followedAt < settings.minFollowDays * DAY_MS) return `followed less than ${settings.minFollowDays} days ago`;
+  }
+  return null;
+};
+
+// What a chat message does to the entries: a moderator opens or closes them, a viewer enters
+// or is turned away (with the reason), or nothing happens.
+export type ChatEntryAction =
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'enter' }
+  | { type: 'reject'; reason: string }
+  | { type: 'ignore' };
+
+// `joinedIds` holds the user ids that already entered since entries last opened; each account
+// enters once, and repeats are ignored without a word.
+export const getChatEntryAction = (
+  message: ChatMessage,
+  settings: ChatEntrySettings,
+  isOpen: boolean,
+  joinedIds: ReadonlySet<string>,
+  now: number = Date.now()
+): ChatEntryAction => {
+  if (message.isModerator && isChatCommand(message.text, settings.openCommand)) return { type: 'open' };
+  if (message.isModerator && isChatCommand(message.text, settings.closeCommand)) return { type: 'close' };
+  if (!isOpen || !isChatCommand(message.text, settings.keyword) || joinedIds.has(message.userId)) return { type: 'ignore' };
+  const rejection = getChatEntryRejection(message, settings, now);
+  return rejection ? { type: 'reject', reason: rejection } : { type: 'enter' };
+};
+
+// Reads saved settings, filling in anything missing or of the wrong type with the defaults.
+export const normalizeChatSettings = (saved: unknown): ChatEntrySettings => {
+  const settings = { ...DEFAULT_CHAT_SETTINGS };
+  if (!saved || typeof saved !== 'object') return settings;
+  const record = saved as Record<string, unknown>;
+  (Object.keys(settings) as (keyof ChatEntrySettings)[]).forEach(key => {
+    if (typeof record[key] === typeof settings[key]) {
+      (settings as Record<string, unknown>)[key] = record[key];
+    }
+  });
+  settings.minFollowDays = Math.max(0, Math.floor(settings.minFollowDays) || 0);
+  return settings;
+};
+
+export type ChatConnectionStatus = 'connecting' | 'connected' | 'failed' | 'disconnected';
+
+export interface ChatConnection {
+  close: () => void;
+}
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Joins the channel and reports chat messages until closed, reconnecting after a dropped connection.
+export const connectIrcChat = (
+  settings: ChatEntrySettings,
+  onMessage: (message: ChatMessage) => void,
+  onStatus: (status: ChatConnectionStatus) => void
+): ChatConnection => {
+  const channel = settings.channel.trim().replace(/^#/, '').toLowerCase();
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+  let closed = false;
+
+  const connect = () => {
+    onStatus('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(settings.serverUrl);
+    } catch (error) {
+      console.error("Error connecting to chat", error);
+      onStatus('failed');
+      return;
+    }
+    socket = ws;
+    let joined = false;
+
+    ws.onopen = () => {
+      const username = settings.username.trim().toLowerCase();
+      const token = settings.oauthToken.trim();
+      ws.send('CAP REQ :twitch.tv/tags twitch.tv/commands');
+      if (username && token) {
+        ws.send(`PASS ${token.startsWith('oauth:') ? token : `oauth:${token}`}`);
+        ws.send(`NICK ${username}`);
+      } else {
+        // Twitch lets justinfan accounts read chat without logging in
+        ws.send(`NICK justinfan${Math.floor(10000 + Math.random() * 90000)}`);
+      }
+      ws.send(`JOIN #${channel}`);
+    };
+    ws.onmessage = (event) => {
+      String(event.data).split('\r\n').forEach(line => {
+        const message = parseIrcMessage(line);
+        if (!message) return;
+        if (message.command === 'PING') {
+          ws.send(`PONG :${message.params[0] ?? ''}`);
+        } else if (message.command === '001' || (message.command === 'JOIN' && !joined)) {
+          joined = true;
+          onStatus('connected');
+        } else if (message.command === 'NOTICE' && /authentication failed|improperly formatted auth/i.test(message.params[1] ?? '')) {
+          closed = true;
+          onStatus('failed');
+          ws.close();
+        } else {
+          const chatMessage = toChatMessage(message);
+          if (chatMessage) onMessage(chatMessage);
+        }
+      });
+    };
+    ws.onclose = () => {
+      socket = null;
+      if (closed) return;
+      // Same rule as the control API: a server we never got into isn't worth hammering
+      if (!joined) {
+        onStatus('failed');
+        return;
+      }
+      onStatus('disconnected');
+      reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+};
@@ -0,0 +1,61 @@
+export type Delimiter = ',' | ';' | '\t';
+
+// Guesses the delimiter from the first line: tabs win (TSV), then whichever of , or ; is more common.
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count('\t') > 0) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+};
+
+// Parses delimited text following RFC 4180: fields may be quoted, quoted fields may contain
+// delimiters, line breaks and doubled quotes (""). Blank lines are dropped.
+export const parseDelimited = (text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+
+  const endField = () => {
+    row.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+  };
+
+  const input = text.replace(/^\uFEFF/, ''); // Spreadsheet exports often start with a BOM
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      inQuotes = true;
+      fieldWasQuoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,29 @@
+// Follower windows that mirror the control window (see utils/sync.ts):
+//   ?display=1  audience display, with the page background, title and logo
+//   ?overlay=1  transparent overlay for OBS browser sources; add &title=1 / &logo=1 to show those
+// Add &token=<control API token> to follow the control window through the control API, which
+// works from another browser such as OBS; without it only windows in the same browser follow.
+export interface DisplayOptions {
+  transparent: boolean;
+  showTitle: boolean;
+  showLogo: boolean;
+  token: string | null;
+}
+
+const isOn = (value: string | null, fallback: boolean): boolean => {
+  if (value === null) return fallback;
+  return !['0', 'false', 'no', 'off'].includes(value.trim().toLowerCase());
+};
+
+// Returns null when the page is the control window.
+export const parseDisplayOptions = (search: string): DisplayOptions | null => {
+  const params = new URLSearchParams(search);
+  const transparent = isOn(params.get('overlay'), false);
+  if (!transparent && !isOn(params.get('display'), false)) return null;
+  return {
+    transparent,
+    showTitle: isOn(params.get('title'), !transparent),
+    showLogo: isOn(params.get('logo'), !transparent),
+    token: params.get('token') || null,
+  };
+};
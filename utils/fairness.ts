@@ -0,0 +1,68 @@
+import { FairDraw, Participant } from '../types';
+import { pickWeightedIndex } from './wheel';
+import { createRandom, createSequenceSource } from './random';
+
+// The parts of a participant that a draw commits to.
+type CommittedParticipant = Pick<Participant, 'name' | 'entries'>;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+};
+
+export const generateSeed = (): string => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+};
+
+// The canonical, ordered form of the wheel that the commitment is computed over.
+export const serializeParticipants = (participants: CommittedParticipant[]): string =>
+  JSON.stringify(participants.map(p => [p.name, p.entries]));
+
+export const parseParticipants = (text: string): CommittedParticipant[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The participant list is not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('The participant list must be an array of [name, entries] pairs.');
+  }
+  return parsed.map((item, index) => {
+    if (!Array.isArray(item) || typeof item[0] !== 'string' || !Number.isInteger(item[1]) || item[1] < 1) {
+      throw new Error(`Entry ${index + 1} is not a valid [name, entries] pair.`);
+    }
+    return { name: item[0], entries: item[1] };
+  });
+};
+
+// Expands the seed into a stream of 32-bit words: SHA-256(seed|list|draw|n) for n = 0, 1, ...
+const deriveWords = async (seed: string, participantsList: string, blocks: number): Promise<number[]> => {
+  const words: number[] = [];
+  for (let block = 0; block < blocks; block++) {
+    const hash = await sha256Hex(`${seed}|${participantsList}|draw|${block}`);
+    for (let offset = 0; offset < hash.length; offset += 8) {
+      words.push(parseInt(hash.slice(offset, offset + 8), 16));
+    }
+  }
+  return words;
+};
+
+// Derives the whole outcome from the seed: the word stream feeds the same unbiased
+// sampler as regular spins, first to pick the winner by weight, then the landing spot.
+export const createFairDraw = async (participants: CommittedParticipant[], seed: string = generateSeed()): Promise<FairDraw> => {
+  const participantsList = serializeParticipants(participants);
+  const commitment = await sha256Hex(`${seed}|${participantsList}`);
+
+  // 32 words leaves plenty of room for rejected samples
+  const random = createRandom(createSequenceSource(await deriveWords(seed, participantsList, 4)));
+  const winnerIndex = pickWeightedIndex(participants, random.randomInt);
+  const offsetFraction = random.randomFloat();
+
+  return { seed, commitment, participantsList, winnerIndex, offsetFraction };
+};
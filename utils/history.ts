@@ -0,0 +1,151 @@
+import { WinnerHistoryEntry, WinnerHistoryFilters } from '../types';
+
+export const EMPTY_HISTORY_FILTERS: WinnerHistoryFilters = {
+  search: '',
+  raffleTitle: '',
+  fromDate: '',
+  toDate: '',
+};
+
+// Older saves have no ids, which are needed to delete or annotate a single entry.
+export const normalizeWinnerHistory = (saved: unknown): WinnerHistoryEntry[] => {
+  if (!Array.isArray(saved)) return [];
+  return saved
+    .filter(entry => entry && typeof entry.winnerName === 'string' && typeof entry.timestamp === 'number')
+    .map(entry => ({
+      ...entry,
+      id: typeof entry.id === 'string' ? entry.id : crypto.randomUUID(),
+      raffleTitle: typeof entry.raffleTitle === 'string' ? entry.raffleTitle : '',
+    }));
+};
+
+// Parses a YYYY-MM-DD date input as local midnight.
+const parseLocalDate = (date: string): number | null => {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day).getTime();
+};
+
+// 1 -> "1st", 2 -> "2nd", 11 -> "11th", 23 -> "23rd"
+export const formatPlace = (place: number): string => {
+  const lastTwo = place % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][place % 10] ?? 'th';
+  return `${place}${suffix}`;
+};
+
+export const getRaffleTitle = (entry: WinnerHistoryEntry): string => entry.raffleTitle.trim() || 'Untitled Raffle';
+
+// Returns the matching entries, newest first.
+export const filterWinnerHistory = (history: WinnerHistoryEntry[], filters: WinnerHistoryFilters): WinnerHistoryEntry[] => {
+  const search = filters.search.trim().toLowerCase();
+  const from = filters.fromDate ? parseLocalDate(filters.fromDate) : null;
+  const toStart = filters.toDate ? parseLocalDate(filters.toDate) : null;
+  const to = toStart !== null ? toStart + 24 * 60 * 60 * 1000 : null;
+
+  return history
+    .filter(entry => {
+      if (search && ![entry.winnerName, entry.note ?? '', entry.prizeName ?? ''].some(text => text.toLowerCase().includes(search))) {
+        return false;
+      }
+      if (filters.raffleTitle && getRaffleTitle(entry) !== filters.raffleTitle) return false;
+      if (from !== null && entry.timestamp < from) return false;
+      if (to !== null && entry.timestamp >= to) return false;
+      return true;
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+interface ExportedWinnerRow {
+  id: string;
+  winnerName: string;
+  raffleTitle: string;
+  timestamp: string;
+  participantCount: number | null;
+  place?: number;
+  prizeName?: string;
+  prizeValue?: number;
+  note?: string;
+  seed?: string;
+  commitment?: string;
+}
+
+const toExportedRow = (entry: WinnerHistoryEntry): ExportedWinnerRow => ({
+  id: entry.id,
+  winnerName: entry.winnerName,
+  raffleTitle: getRaffleTitle(entry),
+  timestamp: new Date(entry.timestamp).toISOString(),
+  participantCount: entry.participantCount ?? null,
+  ...(entry.place !== undefined ? { place: entry.place } : {}),
+  ...(entry.prizeName ? { prizeName: entry.prizeName } : {}),
+  ...(entry.prizeValue !== undefined ? { prizeValue: entry.prizeValue } : {}),
+  ...(entry.note ? { note: entry.note } : {}),
+  ...(entry.seed ? { seed: entry.seed, commitment: entry.commitment } : {}),
+});
+
+const escapeCsvField = (value: string): string => {
+  // Keep spreadsheet apps from evaluating names like "=HYPERLINK(...)" as formulas
+  const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+};
+
+export const toWinnerHistoryCsv = (entries: WinnerHistoryEntry[]): string => {
+  const header = ['Winner', 'Raffle', 'Timestamp', 'Participants', 'Place', 'Prize', 'Prize Value', 'Note'];
+  const rows = entries.map(entry => {
+    const row = toExportedRow(entry);
+    return [
+      row.winnerName,
+      row.raffleTitle,
+      row.timestamp,
+      row.participantCount?.toString() ?? '',
+      row.place?.toString() ?? '',
+      row.prizeName ?? '',
+      row.prizeValue?.toString() ?? '',
+      row.note ?? '',
+    ];
+  });
+  return [header, ...rows].map(fields => fields.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+export const toWinnerHistoryJson = (entries: WinnerHistoryEntry[]): string =>
+  JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), winners: entries.map(toExportedRow) }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const parseTimestamp = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+
+// Reads a file produced by toWinnerHistoryJson back into history entries.
+export const parseWinnerHistoryJson = (text: string): WinnerHistoryEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const rows: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.winners : undefined;
+  if (!Array.isArray(rows)) {
+    throw new Error('The file does not contain a list of winners.');
+  }
+  return rows.map((row: unknown, index) => {
+    const timestamp = isRecord(row) ? parseTimestamp(row.timestamp) : NaN;
+    if (!isRecord(row) || typeof row.winnerName !== 'string' || Number.isNaN(timestamp)) {
+      throw new Error(`Winner ${index + 1} is missing a name or a valid timestamp.`);
+    }
+    const entry: WinnerHistoryEntry = {
+      id: typeof row.id === 'string' ? row.id : crypto.randomUUID(),
+      winnerName: row.winnerName,
+      raffleTitle: typeof row.raffleTitle === 'string' ? row.raffleTitle : '',
+      timestamp,
+    };
+    if (typeof row.participantCount === 'number') entry.participantCount = row.participantCount;
+    if (typeof row.place === 'number') entry.place = row.place;
+    if (typeof row.prizeName === 'string' && row.prizeName) entry.prizeName = row.prizeName;
+    if (typeof row.prizeValue === 'number') entry.prizeValue = row.prizeValue;
+    if (typeof row.note === 'string' && row.note) entry.note = row.note;
+    if (typeof row.seed === 'string' && typeof row.commitment === 'string') {
+      entry.seed = row.seed;
+      entry.commitment = row.commitment;
+    }
+    return entry;
+  });
+};
@@ -0,0 +1,39 @@
+export interface NameMatchOptions {
+  // Treat "João" and "Joao" as the same person when grouping.
+  ignoreDiacritics?: boolean;
+}
+
+// Tidies a typed or pasted name without dropping any letters, digits, symbols or emoji:
+// NFKC folds full-width and compatibility forms, control characters become spaces and
+// invisible formatting characters are removed, except the zero-width joiner emoji need.
+export const cleanName = (name: string): string =>
+  name
+    .normalize('NFKC')
+    .replace(/[\p{Cc}\p{Cs}]/gu, ' ')
+    .replace(/(?!\u200D)\p{Cf}/gu, '')
+    .replace(/\s+/gu, ' ')
+    .trim();
+
+const stripDiacritics = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+
+export const getCoreName = (name: string, options: NameMatchOptions = {}): string => {
+  if (!name) return "";
+  let normalized = name.normalize('NFKC');
+  if (options.ignoreDiacritics) {
+    normalized = stripDiacritics(normalized);
+  }
+  // Keep only letters (in any script) and their combining marks to form the core name for comparison.
+  // This groups names like "Lucas", "$10 Lucas", and "Lucas2" together, and "João" stays "João".
+  const lettersOnly = normalized.replace(/[^\p{L}\p{M}]/gu, '');
+  return lettersOnly || normalized.trim(); // Fallback to the whole name if no letters are found (e.g. only emoji or digits)
+};
+
+// Case-insensitive comparison of two full names after Unicode normalization.
+export const isSameName = (a: string, b: string, options: NameMatchOptions = {}): boolean => {
+  const fold = (name: string) => {
+    const normalized = cleanName(name);
+    return (options.ignoreDiacritics ? stripDiacritics(normalized) : normalized).toLowerCase();
+  };
+  return fold(a) === fold(b);
+};
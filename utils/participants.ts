@@ -0,0 +1,67 @@
+import { Participant, ParticipantDraft, ParticipantSource } from '../types';
+import { getCoreName } from './names';
+
+const PARTICIPANT_SOURCES: ParticipantSource[] = ['manual', 'list', 'file', 'chat'];
+
+const normalizeEntries = (entries: unknown): number => Math.max(1, Math.floor(Number(entries)) || 1);
+
+const normalizeTags = (tags: unknown): string[] =>
+  Array.isArray(tags) ? Array.from(new Set(tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '').map(tag => tag.trim()))) : [];
+
+// Builds a full participant record from a draft whose name has already been cleaned.
+export const createParticipant = (draft: ParticipantDraft, personId: string, defaultSource: ParticipantSource): Participant => {
+  const participant: Participant = {
+    id: crypto.randomUUID(),
+    name: draft.name,
+    entries: normalizeEntries(draft.entries ?? 1),
+    personId,
+    source: draft.source ?? defaultSource,
+    tags: normalizeTags(draft.tags),
+  };
+  const handle = draft.handle?.trim();
+  if (handle) participant.handle = handle;
+  return participant;
+};
+
+// Migrates saved participants to the current record shape. The oldest saves are plain name
+// strings with no identities; those are grouped into people by their core name, which is what
+// "Remove Winner" used to do on the fly. Records missing an id, source or tags get defaults.
+export const normalizeParticipants = (saved: unknown): Participant[] => {
+  if (!Array.isArray(saved)) return [];
+  const personIdsByCoreName = new Map<string, string>();
+  const inferPersonId = (name: string): string => {
+    const coreName = getCoreName(name).toLowerCase();
+    let personId = personIdsByCoreName.get(coreName);
+    if (!personId) {
+      personId = crypto.randomUUID();
+      personIdsByCoreName.set(coreName, personId);
+    }
+    return personId;
+  };
+  const seenIds = new Set<string>();
+
+  return saved
+    .map((item): Participant | null => {
+      if (typeof item === 'string') {
+        return item.trim() ? createParticipant({ name: item }, inferPersonId(item), 'manual') : null;
+      }
+      if (!item || typeof item.name !== 'string') return null;
+
+      const participant = createParticipant(
+        {
+          name: item.name,
+          entries: item.entries,
+          handle: typeof item.handle === 'string' ? item.handle : undefined,
+          source: PARTICIPANT_SOURCES.includes(item.source) ? item.source : 'manual',
+          tags: item.tags,
+        },
+        typeof item.personId === 'string' ? item.personId : inferPersonId(item.name),
+        'manual'
+      );
+      // Keep saved ids unless they are missing or duplicated
+      if (typeof item.id === 'string' && !seenIds.has(item.id)) participant.id = item.id;
+      seenIds.add(participant.id);
+      return participant;
+    })
+    .filter((p): p is Participant => p !== null);
+};
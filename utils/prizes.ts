@@ -0,0 +1,47 @@
+import { Prize } from '../types';
+
+// Images are kept in localStorage with the raffle, so uploads have to stay small.
+export const MAX_PRIZE_IMAGE_BYTES = 300 * 1024;
+
+const normalizeQuantity = (quantity: unknown): number => Math.max(0, Math.floor(Number(quantity)) || 0);
+
+export const createPrize = (name: string, quantity: number, value?: number, imageUrl?: string): Prize => {
+  const prize: Prize = { id: crypto.randomUUID(), name: name.trim(), quantity: normalizeQuantity(quantity) };
+  if (value !== undefined && Number.isFinite(value) && value >= 0) prize.value = value;
+  if (imageUrl?.trim()) prize.imageUrl = imageUrl.trim();
+  return prize;
+};
+
+// Drops malformed saved prizes and fills in missing ids.
+export const normalizePrizes = (saved: unknown): Prize[] => {
+  if (!Array.isArray(saved)) return [];
+  return saved
+    .filter(item => item && typeof item.name === 'string' && item.name.trim())
+    .map(item => {
+      const prize = createPrize(item.name, item.quantity, typeof item.value === 'number' ? item.value : undefined, typeof item.imageUrl === 'string' ? item.imageUrl : undefined);
+      if (typeof item.id === 'string') prize.id = item.id;
+      return prize;
+    });
+};
+
+// Takes one unit of the prize out of stock; stock never goes below zero.
+export const awardPrize = (prizes: Prize[], prizeId: string): Prize[] =>
+  prizes.map(prize => prize.id === prizeId ? { ...prize, quantity: Math.max(0, prize.quantity - 1) } : prize);
+
+export const formatPrizeValue = (value: number): string =>
+  value.toLocaleString(undefined, { minimumFractionDigits: Number.isInteger(value) ? 0 : 2, maximumFractionDigits: 2 });
+
+export const readPrizeImage = (file: File): Promise<string> => {
+  if (!file.type.startsWith('image/')) {
+    return Promise.reject(new Error('Please choose an image file.'));
+  }
+  if (file.size > MAX_PRIZE_IMAGE_BYTES) {
+    return Promise.reject(new Error(`Images must be smaller than ${Math.round(MAX_PRIZE_IMAGE_BYTES / 1024)} KB.`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('The image could not be read.'));
+    reader.readAsDataURL(file);
+  });
+};
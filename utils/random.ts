@@ -0,0 +1,70 @@
+// Fills the given buffer with uniformly distributed 32-bit words.
+export type RandomSource = (buffer: Uint32Array) => void;
+
+export interface Random {
+  // Uniform integer in [0, maxExclusive), without modulo bias.
+  randomInt: (maxExclusive: number) => number;
+  // Uniform float in [0, 1) with 53 bits of precision.
+  randomFloat: () => number;
+  // Fisher-Yates shuffle into a new array.
+  shuffle: <T>(items: readonly T[]) => T[];
+}
+
+const UINT32_RANGE = 0x100000000;
+
+export const cryptoSource: RandomSource = buffer => {
+  crypto.getRandomValues(buffer);
+};
+
+// Replays a fixed list of words, for deterministic draws and tests.
+export const createSequenceSource = (words: readonly number[]): RandomSource => {
+  let position = 0;
+  return buffer => {
+    for (let i = 0; i < buffer.length; i++) {
+      if (position >= words.length) {
+        throw new Error('The deterministic random sequence ran out of values.');
+      }
+      buffer[i] = words[position++] >>> 0;
+    }
+  };
+};
+
+export const createRandom = (source: RandomSource = cryptoSource): Random => {
+  const word = new Uint32Array(1);
+  const nextUint32 = (): number => {
+    source(word);
+    return word[0];
+  };
+
+  const randomInt = (maxExclusive: number): number => {
+    if (!Number.isInteger(maxExclusive) || maxExclusive < 1 || maxExclusive > UINT32_RANGE) {
+      throw new RangeError(`randomInt expects an integer between 1 and 2^32, got ${maxExclusive}`);
+    }
+    // Reject draws from the incomplete final block so every result is equally likely
+    const limit = UINT32_RANGE - (UINT32_RANGE % maxExclusive);
+    let value = nextUint32();
+    while (value >= limit) {
+      value = nextUint32();
+    }
+    return value % maxExclusive;
+  };
+
+  const randomFloat = (): number => {
+    const high = nextUint32() >>> 5; // 27 bits
+    const low = nextUint32() >>> 6; // 26 bits
+    return (high * 67108864 + low) / 9007199254740992;
+  };
+
+  const shuffle = <T>(items: readonly T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = randomInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  };
+
+  return { randomInt, randomFloat, shuffle };
+};
+
+export const secureRandom = createRandom();
@@ -0,0 +1,190 @@
+import type { SyncMessage } from './sync';
+
+// Protocol shared by the local control API (server/controlApi.ts) and the control window.
+// Commands flow from Stream Deck / bot clients through the server to the control window, which
+// runs them exactly as if the operator had clicked; events flow back the other way. Display
+// windows in another browser, such as an OBS browser source, get the control window's sync
+// messages (utils/sync.ts) the same way, since BroadcastChannel can't reach them.
+
+export type RemoteCommand =
+  | { command: 'spin' }
+  | { command: 'stop' }
+  | { command: 'reset' }
+  | { command: 'clear' }
+  | { command: 'add'; name: string; entries?: number };
+
+export type RemoteEvent =
+  | { event: 'spinStarted'; raffleTitle: string; participantCount: number }
+  | { event: 'winnerChosen'; winnerName: string; raffleTitle: string; prizeName?: string; timestamp: number }
+  | { event: 'listChanged'; raffleTitle: string; participants: { name: string; entries: number }[] };
+
+export type RemoteMessage =
+  | ({ type: 'command' } & RemoteCommand)
+  | ({ type: 'event' } & RemoteEvent)
+  | { type: 'status'; appConnected: boolean }
+  | { type: 'error'; message: string }
+  | { type: 'sync'; message: SyncMessage };
+
+// The roles a socket connects as: the control window, a display window, or (by default) a
+// Stream Deck or bot client.
+export type RemoteRole = 'app' | 'display' | 'client';
+
+export const REMOTE_COMMANDS: RemoteCommand['command'][] = ['spin', 'stop', 'reset', 'clear', 'add'];
+
+// Checks a command received from outside; returns null when it is malformed.
+export const parseRemoteCommand = (value: unknown): RemoteCommand | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { command, name, entries } = value as { command?: unknown; name?: unknown; entries?: unknown };
+  if (command === 'add') {
+    if (typeof name !== 'string' || !name.trim()) return null;
+    return typeof entries === 'number' && entries >= 1 ? { command, name, entries: Math.floor(entries) } : { command, name };
+  }
+  return REMOTE_COMMANDS.includes(command as RemoteCommand['command']) ? { command } as RemoteCommand : null;
+};
+
+// Checks a sync message sent by a display window; they may only say hello or ask for a spin or stop.
+export const parseDisplayMessage = (value: unknown): SyncMessage | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { type, command } = value as { type?: unknown; command?: unknown };
+  if (type === 'hello') return { type };
+  if (type === 'command' && (command === 'spin' || command === 'stop')) return { type, command };
+  return null;
+};
+
+export type RemoteConnectionStatus = 'connecting' | 'connected' | 'failed' | 'disconnected';
+
+export interface RemoteConnection {
+  sendEvent: (event: RemoteEvent) => void;
+  sendSync: (message: SyncMessage) => void;
+  // Tells the clients a command was refused
+  sendError: (message: string) => void;
+  close: () => void;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+const getSocketUrl = (token: string, role: RemoteRole): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/api/ws?role=${role}&token=${encodeURIComponent(token)}`;
+};
+
+// Connects the control window to the local control API and keeps the connection alive.
+export const connectRemoteControl = (
+  token: string,
+  onCommand: (command: RemoteCommand) => void,
+  onSync: (message: SyncMessage) => void,
+  onStatus: (status: RemoteConnectionStatus) => void
+): RemoteConnection => {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+  let closed = false;
+
+  const connect = () => {
+    onStatus('connecting');
+    const ws = new WebSocket(getSocketUrl(token, 'app'));
+    socket = ws;
+    let opened = false;
+
+    ws.onopen = () => {
+      opened = true;
+      onStatus('connected');
+    };
+    ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(String(event.data)) as RemoteMessage;
+        if (message.type === 'sync') {
+          const syncMessage = parseDisplayMessage(message.message);
+          if (syncMessage) onSync(syncMessage);
+          return;
+        }
+        if (message.type !== 'command') return;
+        const command = parseRemoteCommand(message);
+        if (command) onCommand(command);
+      } catch (error) {
+        console.error("Error parsing control API message", error);
+      }
+    };
+    ws.onclose = () => {
+      socket = null;
+      if (closed) return;
+      // A handshake that never opens means a wrong token or no control API; don't keep retrying
+      if (!opened) {
+        onStatus('failed');
+        return;
+      }
+      onStatus('disconnected');
+      reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    sendEvent: (event) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'event', ...event }));
+      }
+    },
+    sendSync: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'sync', message }));
+      }
+    },
+    sendError: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'error', message }));
+      }
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+};
+
+export interface DisplayConnection {
+  send: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+// Connects a display window to the control window through the local control API. Unlike the
+// control window it keeps retrying: an OBS source is often loaded before the dev server is up.
+export const connectDisplaySync = (token: string, onMessage: (message: SyncMessage) => void): DisplayConnection => {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+  let closed = false;
+
+  const connect = () => {
+    const ws = new WebSocket(getSocketUrl(token, 'display'));
+    socket = ws;
+    ws.onopen = () => ws.send(JSON.stringify({ type: 'sync', message: { type: 'hello' } }));
+    ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(String(event.data)) as RemoteMessage;
+        if (message.type === 'sync') onMessage(message.message);
+      } catch (error) {
+        console.error("Error parsing control API message", error);
+      }
+    };
+    ws.onclose = () => {
+      socket = null;
+      if (!closed) reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'sync', message }));
+      }
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+};
@@ -0,0 +1,28 @@
+export interface ResolutionPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RESOLUTION_PRESETS: ResolutionPreset[] = [
+  { id: '1920x1080', label: '1920×1080 (Full HD)', width: 1920, height: 1080 },
+  { id: '1280x720', label: '1280×720 (HD)', width: 1280, height: 720 },
+  { id: '1080x1920', label: '1080×1920 (Vertical)', width: 1080, height: 1920 },
+  { id: '1080x1080', label: '1080×1080 (Square)', width: 1080, height: 1080 },
+];
+
+export const getResolutionPreset = (id: string | null): ResolutionPreset | null =>
+  RESOLUTION_PRESETS.find(preset => preset.id === id) ?? null;
+
+export const isPortraitPreset = (preset: ResolutionPreset): boolean => preset.height > preset.width;
+
+// Scale and offset that fit the locked canvas inside the window, centred, without cropping.
+export const getCanvasFit = (preset: ResolutionPreset, viewportWidth: number, viewportHeight: number) => {
+  const scale = Math.min(viewportWidth / preset.width, viewportHeight / preset.height);
+  return {
+    scale,
+    left: (viewportWidth - preset.width * scale) / 2,
+    top: (viewportHeight - preset.height * scale) / 2,
+  };
+};
@@ -0,0 +1,72 @@
+// Global keyboard shortcuts for hosting hands-free. Bindings are stored as normalized key names:
+// single characters in lower case (" " for Space), anything else as KeyboardEvent.key.
+
+export type ShortcutAction = 'spinOrStop' | 'reset' | 'removeWinner' | 'fullscreen' | 'mute' | 'shuffle' | 'help';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'spinOrStop', label: 'Spin, or stop a spin' },
+  { action: 'reset', label: 'Reset after a win' },
+  { action: 'removeWinner', label: 'Remove the winner' },
+  { action: 'fullscreen', label: 'Toggle full screen' },
+  { action: 'mute', label: 'Mute or unmute' },
+  { action: 'shuffle', label: 'Shuffle the wheel' },
+  { action: 'help', label: 'Show or hide this help' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  spinOrStop: ' ',
+  reset: 'r',
+  removeWinner: 'x',
+  fullscreen: 'f',
+  mute: 'm',
+  shuffle: 's',
+  help: '?',
+};
+
+// Keys that keep their usual job and can't be bound.
+const RESERVED_KEYS = ['Escape', 'Tab', 'Enter', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+export const getShortcutKey = (e: KeyboardEvent): string | null => {
+  if (RESERVED_KEYS.includes(e.key) || e.key === 'Dead' || e.key === 'Unidentified') return null;
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+};
+
+export const formatShortcutKey = (key: string): string => {
+  if (key === ' ') return 'Space';
+  if (!key) return '—';
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+// Text fields keep their keys, so typing a name never spins the wheel.
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+};
+
+export const findShortcutAction = (bindings: ShortcutBindings, key: string): ShortcutAction | null =>
+  SHORTCUT_ACTIONS.find(({ action }) => bindings[action] === key)?.action ?? null;
+
+// Binds a key to an action. An action that already had the key takes over the old key instead,
+// so no two actions ever share one.
+export const assignShortcut = (bindings: ShortcutBindings, action: ShortcutAction, key: string): ShortcutBindings => {
+  const previousOwner = findShortcutAction(bindings, key);
+  const next = { ...bindings, [action]: key };
+  if (previousOwner && previousOwner !== action) next[previousOwner] = bindings[action];
+  return next;
+};
+
+// Reads saved bindings, keeping the defaults for anything missing or clashing.
+export const normalizeShortcuts = (saved: unknown): ShortcutBindings => {
+  let bindings = { ...DEFAULT_SHORTCUTS };
+  if (!saved || typeof saved !== 'object') return bindings;
+  const record = saved as Record<string, unknown>;
+  SHORTCUT_ACTIONS.forEach(({ action }) => {
+    const key = record[action];
+    if (typeof key === 'string' && key && !RESERVED_KEYS.includes(key)) {
+      bindings = assignShortcut(bindings, action, key);
+    }
+  });
+  return bindings;
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { SegmentArc, getSegmentArcs, getSegmentIndexAtPointer } from './wheel';
+import {
+  SPIN_EASINGS,
+  SpinPlan,
+  SpinSettings,
+  countBoundaryCrossings,
+  getLandingIndex,
+  getSpinRotation,
+  getSpinTicks,
+  planPhysicsSpin,
+  planSpin,
+} from './spinEngine';
+
+const layouts: { name: string; arcs: SegmentArc[] }[] = [
+  { name: 'two equal segments', arcs: getSegmentArcs([{ entries: 1 }, { entries: 1 }]) },
+  { name: 'weighted segments', arcs: getSegmentArcs([1, 5, 2, 20, 1, 3].map(entries => ({ entries }))) },
+  { name: 'tiny segments beside a huge one', arcs: getSegmentArcs([1000, 1, 1, 1].map(entries => ({ entries }))) },
+  { name: '500 segments', arcs: getSegmentArcs(Array.from({ length: 500 }, (_, i) => ({ entries: 1 + (i * 7919) % 5 }))) },
+];
+
+// A handful of targets per layout: both ends and a few in between
+const targetsOf = (arcs: SegmentArc[]) =>
+  [...new Set([0, 1, Math.floor(arcs.length / 3), Math.floor(arcs.length / 2), arcs.length - 1])];
+
+const offsets = [0, 0.37, 1];
+
+const settingsFor = (overrides: Partial<SpinSettings>): SpinSettings => ({
+  motion: 'eased',
+  durationMs: 12000,
+  rotations: 12,
+  easing: 'expo',
+  ...overrides,
+});
+
+describe('planSpin', () => {
+  for (const { easing } of SPIN_EASINGS) {
+    for (const { name, arcs } of layouts) {
+      it(`lands on the target with ${easing} easing on ${name}`, () => {
+        for (const targetIndex of targetsOf(arcs)) {
+          for (const offset of offsets) {
+            const plan = planSpin(arcs, targetIndex, offset, 123.4, settingsFor({ easing }));
+            expect(getLandingIndex(plan)).toBe(targetIndex);
+          }
+        }
+      });
+    }
+
+    it(`starts and ends exactly on the plan with ${easing} easing`, () => {
+      const plan = planSpin(layouts[1].arcs, 3, 0.5, 725, settingsFor({ easing, rotations: 5 }));
+      expect(getSpinRotation(plan, 0)).toBe(plan.startRotation);
+      expect(getSpinRotation(plan, plan.durationMs)).toBe(plan.targetRotation);
+      expect(getSpinRotation(plan, plan.durationMs + 1000)).toBe(plan.targetRotation);
+      expect(getSpinRotation(plan, plan.durationMs - 1)).toBeCloseTo(plan.targetRotation, 0);
+    });
+  }
+
+  it('always makes at least the configured number of full turns', () => {
+    for (const { arcs } of layouts) {
+      for (const targetIndex of targetsOf(arcs)) {
+        for (const startRotation of [0, 123.4, 359.9, 725, -90]) {
+          for (const rotations of [1, 5]) {
+            const plan = planSpin(arcs, targetIndex, 0, startRotation, settingsFor({ rotations }));
+            const travel = plan.targetRotation - plan.startRotation;
+            expect(travel).toBeGreaterThanOrEqual(rotations * 360);
+            expect(travel).toBeLessThan((rotations + 1) * 360);
+            expect(getLandingIndex(plan)).toBe(targetIndex);
+          }
+        }
+      }
+    }
+  });
+
+  it('keeps the landing spot inside the middle of the segment', () => {
+    const arcs = layouts[1].arcs;
+    for (const offset of offsets) {
+      const plan = planSpin(arcs, 3, offset, 0, settingsFor({}));
+      const pointerAngle = ((-plan.targetRotation % 360) + 360) % 360;
+      const { startAngle, endAngle } = arcs[3];
+      const margin = (endAngle - startAngle) * 0.1;
+      expect(pointerAngle).toBeGreaterThanOrEqual(startAngle + margin - 1e-9);
+      expect(pointerAngle).toBeLessThanOrEqual(endAngle - margin + 1e-9);
+    }
+  });
+});
+
+describe('planPhysicsSpin', () => {
+  for (const { name, arcs } of layouts) {
+    for (const durationMs of [2000, 12000]) {
+      it(`lands on the target on ${name} in about ${durationMs} ms`, () => {
+        for (const targetIndex of targetsOf(arcs)) {
+          const plan = planPhysicsSpin(arcs, targetIndex, 0.37, 123.4, settingsFor({ motion: 'physics', durationMs }));
+          expect(getLandingIndex(plan)).toBe(targetIndex);
+        }
+      });
+    }
+  }
+
+  it('plays back from the start rotation to the resting spot', () => {
+    const plan = planPhysicsSpin(layouts[1].arcs, 2, 0.5, 40, settingsFor({ motion: 'physics' }));
+    expect(plan.trajectory).toBeDefined();
+    expect(getSpinRotation(plan, 0)).toBe(plan.startRotation);
+    expect(getSpinRotation(plan, plan.durationMs)).toBe(plan.targetRotation);
+  });
+});
+
+describe('countBoundaryCrossings', () => {
+  const quarters = getSegmentArcs([1, 1, 1, 1].map(entries => ({ entries })));
+
+  it('counts each boundary passed, in either direction', () => {
+    expect(countBoundaryCrossings(quarters, 0, 360)).toBe(4);
+    expect(countBoundaryCrossings(quarters, 360, 0)).toBe(4);
+    expect(countBoundaryCrossings(quarters, 10, 80)).toBe(0);
+    expect(countBoundaryCrossings(quarters, 10, 100)).toBe(1);
+    expect(countBoundaryCrossings(quarters, -10, 10)).toBe(1);
+  });
+
+  it('never ticks on a single-segment wheel', () => {
+    expect(countBoundaryCrossings(getSegmentArcs([{ entries: 1 }]), 0, 720)).toBe(0);
+  });
+});
+
+describe('getSpinTicks', () => {
+  // Asks for ticks frame by frame, as the animation does
+  const collectTicks = (plan: SpinPlan, frameMs: number) => {
+    const frames = [];
+    for (let fromMs = 0; fromMs < plan.durationMs; fromMs += frameMs) {
+      const toMs = Math.min(plan.durationMs, fromMs + frameMs);
+      frames.push({ fromMs, toMs, ticks: getSpinTicks(plan, fromMs, toMs) });
+    }
+    return frames;
+  };
+
+  it('ticks once per boundary over the whole spin', () => {
+    for (const { arcs } of layouts) {
+      const plan = planSpin(arcs, 1, 0.5, 0, settingsFor({ durationMs: 4000 }));
+      const ticks = collectTicks(plan, 16).flatMap(frame => frame.ticks);
+      expect(ticks).toHaveLength(countBoundaryCrossings(arcs, plan.startRotation, plan.targetRotation));
+    }
+  });
+
+  it('spreads ticks evenly inside their frame, ending on the frame', () => {
+    const plan = planSpin(layouts[3].arcs, 10, 0.5, 0, settingsFor({ durationMs: 4000 }));
+    for (const { fromMs, toMs, ticks } of collectTicks(plan, 16)) {
+      ticks.forEach((tick, i) => {
+        expect(tick.elapsedMs).toBeGreaterThan(fromMs);
+        expect(tick.elapsedMs).toBeLessThanOrEqual(toMs);
+        expect(tick.elapsedMs).toBeCloseTo(fromMs + ((i + 1) / ticks.length) * (toMs - fromMs), 9);
+        expect(tick.segmentIndex).toBe(getSegmentIndexAtPointer(plan.arcs, getSpinRotation(plan, toMs)));
+      });
+    }
+  });
+});
@@ -0,0 +1,431 @@
+import { SegmentArc, getSegmentIndexAtPointer } from './wheel';
+
+// The spin animation as pure functions of time, so the same plan can drive the wheel, be
+// replayed, or be checked without a browser. The winner is chosen before the plan is made;
+// the plan only decides how the wheel gets there.
+
+export type SpinEasing = 'expo' | 'cubic' | 'back' | 'elastic';
+
+// 'eased' follows an easing curve; 'physics' simulates friction, pegs and the pointer flap.
+export type SpinMotion = 'eased' | 'physics';
+
+export interface SpinSettings {
+  motion: SpinMotion;
+  // In physics mode the duration is a target; the simulation decides the exact stopping time.
+  durationMs: number;
+  // Whole turns before the wheel settles on the winner.
+  rotations: number;
+  // Only used by eased spins.
+  easing: SpinEasing;
+}
+
+export const DEFAULT_SPIN_SETTINGS: SpinSettings = {
+  motion: 'eased',
+  durationMs: 12000,
+  rotations: 12,
+  easing: 'expo',
+};
+
+export const SPIN_EASINGS: { easing: SpinEasing; label: string }[] = [
+  { easing: 'expo', label: 'Long glide (expo)' },
+  { easing: 'cubic', label: 'Steady slowdown (cubic)' },
+  { easing: 'back', label: 'Overshoot and rock back' },
+  { easing: 'elastic', label: 'Springy settle (elastic)' },
+];
+
+export const MIN_SPIN_DURATION_MS = 2000;
+export const MAX_SPIN_DURATION_MS = 60000;
+export const MIN_SPIN_ROTATIONS = 1;
+export const MAX_SPIN_ROTATIONS = 50;
+
+// How far the overshooting curves swing past the landing spot, in degrees. Kept small and
+// independent of the travel, so a long spin doesn't throw the wheel a whole turn back.
+const BACK_OVERSHOOT_DEG = 14;
+const ELASTIC_AMPLITUDE_DEG = 10;
+
+// Scaled to reach 1 at x = 1 rather than 0.999, which would snap the last 0.1% of the travel on the final frame
+const easeOutExpo = (x: number): number => (1 - Math.pow(2, -10 * x)) / (1 - Math.pow(2, -10));
+const easeOutCubic = (x: number): number => 1 - Math.pow(1 - x, 3);
+const easeInOutSine = (x: number): number => -(Math.cos(Math.PI * x) - 1) / 2;
+
+// Degrees travelled at progress x (0 to 1) for a spin covering `travel` degrees. Every curve
+// starts at 0 and ends at exactly `travel`, which is what makes the landing exact.
+const SPIN_CURVES: Record<SpinEasing, (x: number, travel: number) => number> = {
+  expo: (x, travel) => travel * easeOutExpo(x),
+  cubic: (x, travel) => travel * easeOutCubic(x),
+  back: (x, travel) => {
+    const overshoot = Math.min(BACK_OVERSHOOT_DEG, travel * 0.05);
+    const turnaround = 0.85;
+    if (x < turnaround) return (travel + overshoot) * easeOutCubic(x / turnaround);
+    return travel + overshoot * (1 - easeInOutSine((x - turnaround) / (1 - turnaround)));
+  },
+  elastic: (x, travel) => {
+    const amplitude = Math.min(ELASTIC_AMPLITUDE_DEG, travel * 0.05);
+    const settleStart = 0.7;
+    if (x < settleStart) return travel * easeOutExpo(x / settleStart);
+    // A decaying wobble around the landing spot that fades in and out smoothly, so the speed never jumps
+    const u = (x - settleStart) / (1 - settleStart);
+    return travel + amplitude * (1 - u) * Math.pow(Math.sin(Math.PI * u), 2) * Math.sin(4 * Math.PI * u);
+  },
+};
+
+// A simulated spin, sampled every PHYSICS_STEP_MS.
+interface SpinTrajectory {
+  rotations: Float64Array;
+  // Pointer flap deflection in degrees, positive in the direction the wheel turns.
+  pointer: Float64Array;
+}
+
+export interface SpinPlan {
+  arcs: SegmentArc[];
+  targetIndex: number;
+  startRotation: number;
+  targetRotation: number;
+  durationMs: number;
+  easing: SpinEasing;
+  trajectory?: SpinTrajectory;
+}
+
+export interface SpinTick {
+  elapsedMs: number;
+  // Segment under the pointer once the boundary has passed.
+  segmentIndex: number;
+}
+
+// Clamps settings from storage or the UI into the supported range.
+export const normalizeSpinSettings = (value: unknown): SpinSettings => {
+  const settings = { ...DEFAULT_SPIN_SETTINGS };
+  if (!value || typeof value !== 'object') return settings;
+  const { motion, durationMs, rotations, easing } = value as Record<string, unknown>;
+  if (motion === 'eased' || motion === 'physics') settings.motion = motion;
+  if (typeof durationMs === 'number' && Number.isFinite(durationMs)) {
+    settings.durationMs = Math.min(MAX_SPIN_DURATION_MS, Math.max(MIN_SPIN_DURATION_MS, Math.round(durationMs)));
+  }
+  if (typeof rotations === 'number' && Number.isFinite(rotations)) {
+    settings.rotations = Math.min(MAX_SPIN_ROTATIONS, Math.max(MIN_SPIN_ROTATIONS, Math.round(rotations)));
+  }
+  if (SPIN_EASINGS.some(option => option.easing === easing)) settings.easing = easing as SpinEasing;
+  return settings;
+};
+
+// Plans a spin that lands on arcs[targetIndex]. offsetFraction (0 to 1) picks the landing spot
+// inside the segment, kept within its middle 80% so it never lands on a boundary.
+export const planSpin = (
+  arcs: SegmentArc[],
+  targetIndex: number,
+  offsetFraction: number,
+  startRotation: number,
+  settings: SpinSettings
+): SpinPlan => {
+  const arc = arcs[targetIndex];
+  const arcSize = arc.endAngle - arc.startAngle;
+  const targetStopAngle = (360 - (arc.startAngle + arcSize / 2) + 360) % 360;
+  const offset = offsetFraction * arcSize * 0.8 - arcSize * 0.4;
+  const start = startRotation % 360;
+  // The part of a turn still needed to reach the landing spot, so the wheel always makes
+  // at least `rotations` full turns whatever angle it starts from
+  const remaining = (((targetStopAngle + offset - start) % 360) + 360) % 360;
+  return {
+    arcs,
+    targetIndex,
+    startRotation: start,
+    targetRotation: start + settings.rotations * 360 + remaining,
+    durationMs: settings.durationMs,
+    easing: settings.easing,
+  };
+};
+
+// Linear interpolation between trajectory samples.
+const sampleTrajectory = (samples: Float64Array, elapsedMs: number): number => {
+  const position = Math.min(samples.length - 1, Math.max(0, elapsedMs / PHYSICS_STEP_MS));
+  const index = Math.floor(position);
+  const next = Math.min(samples.length - 1, index + 1);
+  return samples[index] + (samples[next] - samples[index]) * (position - index);
+};
+
+export const getSpinRotation = (plan: SpinPlan, elapsedMs: number): number => {
+  const x = Math.min(1, Math.max(0, elapsedMs / plan.durationMs));
+  if (x === 1) return plan.targetRotation;
+  if (plan.trajectory) return sampleTrajectory(plan.trajectory.rotations, elapsedMs);
+  return plan.startRotation + SPIN_CURVES[plan.easing](x, plan.targetRotation - plan.startRotation);
+};
+
+// How far the pointer is bent by the pegs; always 0 for eased spins, which flick it on each tick instead.
+export const getPointerDeflection = (plan: SpinPlan, elapsedMs: number): number =>
+  plan.trajectory && elapsedMs < plan.durationMs ? sampleTrajectory(plan.trajectory.pointer, elapsedMs) : 0;
+
+export const isSpinFinished = (plan: SpinPlan, elapsedMs: number): boolean => elapsedMs >= plan.durationMs;
+
+// Number of segment boundaries that pass under the pointer as the wheel turns from one
+// rotation to another, in either direction.
+export const countBoundaryCrossings = (arcs: SegmentArc[], fromRotation: number, toRotation: number): number => {
+  if (arcs.length < 2) return 0;
+  // The pointer moves against the wheel, so work in pointer angles
+  const low = Math.min(-fromRotation, -toRotation);
+  const high = Math.max(-fromRotation, -toRotation);
+  return arcs.reduce((count, arc) =>
+    count + Math.floor((high - arc.startAngle) / 360) - Math.floor((low - arc.startAngle) / 360), 0);
+};
+
+// The ticks heard between two moments of a spin, one per boundary crossed. The animation asks
+// for each frame's window, so a fast wheel crossing several small segments in one frame still
+// ticks for each of them.
+export const getSpinTicks = (plan: SpinPlan, fromMs: number, toMs: number): SpinTick[] => {
+  const fromRotation = getSpinRotation(plan, fromMs);
+  const toRotation = getSpinRotation(plan, toMs);
+  const crossings = countBoundaryCrossings(plan.arcs, fromRotation, toRotation);
+  if (crossings === 0) return [];
+  const segmentIndex = getSegmentIndexAtPointer(plan.arcs, toRotation);
+  return Array.from({ length: crossings }, (_, i) => ({
+    elapsedMs: fromMs + ((i + 1) / crossings) * (toMs - fromMs),
+    segmentIndex,
+  }));
+};
+
+// Where the plan comes to rest; equals plan.targetIndex for every valid plan.
+export const getLandingIndex = (plan: SpinPlan): number =>
+  getSegmentIndexAtPointer(plan.arcs, getSpinRotation(plan, plan.durationMs));
+
+// --- Physics ---
+// The wheel slows under friction (a constant part plus a part growing with speed). A peg sits on
+// every segment boundary; as one reaches the pointer it bends the flap, the flap pushes back on
+// the wheel, and once the peg slips past the flap springs back and wobbles. A slow wheel can fail
+// to push a peg through and rock back off it. The winner is still decided before the spin: the
+// solver searches for the launch speed at which this simulation comes to rest on the planned
+// spot, and the recorded run is what gets played back.
+
+// The solver runs its simulations on the main thread when Spin is pressed, so steps are as long
+// as the flap spring allows (split where pegs need it) and playback interpolates between them.
+const PHYSICS_STEP_MS = 4;
+// Time the flap is given to settle after the wheel stops.
+const POINTER_SETTLE_MS = 1200;
+// Largest flap bend, reached just before a peg slips past; less when pegs are close together.
+const MAX_POINTER_DEFLECTION_DEG = 28;
+// Wheel travel over which a peg is in contact with the flap.
+const PEG_CONTACT_DEG = 6;
+// Flap spring (per second squared) and damping (per second).
+const POINTER_STIFFNESS = 900;
+const POINTER_DAMPING = 14;
+// How hard a fully bent flap pushes on the wheel, as a multiple of plain friction. Above the
+// static friction, so a wheel that runs out of speed against a peg is pushed back.
+const PEG_PUSH_FACTOR = 3;
+// A wheel slower than this (degrees per second) stops, unless the flap pushes harder than
+// static friction, which is this multiple of the friction while turning.
+const STOP_SPEED = 2;
+const STATIC_FRICTION_FACTOR = 1.5;
+// The speed-dependent friction, relative to the target duration: higher means a longer crawl.
+const VISCOUS_SHAPE = 3;
+const SOLVER_ITERATIONS = 20;
+// The search stops early once the wheel rests this close (in degrees) to the planned spot.
+const SOLVER_TOLERANCE_DEG = 0.01;
+// How far short of a peg (in contact lengths) a rock-back finish is tried.
+const ROCK_BACK_REACH = 2;
+// Safety cap on simulated time, as a multiple of the target duration.
+const MAX_DURATION_FACTOR = 4;
+
+interface PhysicsModel {
+  pegs: number[];
+  contact: number;
+  maxDeflection: number;
+  friction: number;
+  viscous: number;
+  pegPush: number;
+  maxSteps: number;
+}
+
+// The next peg to reach the pointer. Pegs are sorted segment start angles; the next one is the
+// largest that hasn't yet turned past the top.
+const nextPegIndex = (pegs: number[], rotation: number): number => {
+  const limit = 360 - ((rotation % 360) + 360) % 360;
+  let low = 0;
+  let high = pegs.length - 1;
+  let found = pegs.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pegs[mid] < limit) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Distance (in wheel travel) until the next peg reaches the pointer.
+const distanceToNextPeg = (pegs: number[], rotation: number): number => {
+  if (pegs.length === 0) return 360;
+  return 360 - (((rotation + pegs[nextPegIndex(pegs, rotation)]) % 360) + 360) % 360;
+};
+
+// Runs one spin from the given launch speed. Only the final travel is returned unless `record`
+// is set, which also keeps every sample for playback.
+const simulatePhysicsSpin = (model: PhysicsModel, startRotation: number, launchSpeed: number, record: boolean) => {
+  const dt = PHYSICS_STEP_MS / 1000;
+  const rotations: number[] = [];
+  const pointer: number[] = [];
+  let travel = 0;
+  let speed = launchSpeed;
+  let flap = 0;
+  let flapSpeed = 0;
+  let inContact = false;
+  let stoppedAt: number | null = null;
+
+  // A crowded wheel passes tens of thousands of pegs in a run, so the next one is followed as
+  // the wheel turns instead of being searched for: `pegTravel` is the travel at which it arrives.
+  const { pegs } = model;
+  const pegSpacing = (index: number) => pegs.length < 2 ? 360 : (pegs[index] - pegs[(index + pegs.length - 1) % pegs.length] + 360) % 360;
+  let pegIndex = pegs.length > 0 ? nextPegIndex(pegs, startRotation) : -1;
+  let pegTravel = pegs.length > 0 ? distanceToNextPeg(pegs, startRotation) : Infinity;
+  const gapToNextPeg = () => {
+    while (pegTravel <= travel) {
+      pegTravel += pegSpacing(pegIndex);
+      pegIndex = (pegIndex + pegs.length - 1) % pegs.length;
+    }
+    // Turning back brings the last peg passed round again
+    while (pegIndex >= 0 && travel < pegTravel - pegSpacing((pegIndex + 1) % pegs.length)) {
+      pegIndex = (pegIndex + 1) % pegs.length;
+      pegTravel -= pegSpacing(pegIndex);
+    }
+    return pegTravel - travel;
+  };
+
+  for (let step = 0; step < model.maxSteps; step++) {
+    if (record) {
+      rotations.push(startRotation + travel);
+      pointer.push(flap);
+    }
+    if (stoppedAt !== null && (!record || step - stoppedAt >= POINTER_SETTLE_MS / PHYSICS_STEP_MS)) break;
+
+    // A fast wheel would jump clean over pegs in one step, so the step is split: the wheel runs
+    // freely up to the next peg's contact, then moves half a contact at a time
+    for (let remaining = dt; remaining > 0;) {
+      const gap = gapToNextPeg();
+      const span = (inContact ? 0 : Math.max(0, gap - model.contact)) + model.contact / 2;
+      const h = stoppedAt !== null || Math.abs(speed) * remaining <= span ? remaining : span / Math.abs(speed);
+      remaining -= h;
+
+      // The peg about to pass bends the flap up to the peg's position
+      const pegBend = gap < model.contact ? model.maxDeflection * (1 - gap / model.contact) : 0;
+      // Once touching, the flap follows the peg back as well, until it slips past or falls away
+      inContact = pegBend > 0 && (inContact || pegBend >= flap);
+
+      if (stoppedAt === null) {
+        const push = inContact ? model.pegPush * (pegBend / model.maxDeflection) : 0;
+        const drag = model.friction + model.viscous * Math.abs(speed);
+        if (Math.abs(speed) < STOP_SPEED && push <= model.friction * STATIC_FRICTION_FACTOR) {
+          speed = 0;
+          stoppedAt = step;
+        } else {
+          const direction = speed > 0 ? 1 : speed < 0 ? -1 : -Math.sign(push);
+          const nextSpeed = speed - direction * drag * h - push * h;
+          // Friction can stop the wheel but never turn it around; only a peg can
+          speed = direction * nextSpeed < 0 && push <= model.friction ? 0 : nextSpeed;
+          travel += speed * h;
+        }
+      }
+
+      if (inContact) {
+        // Held against the peg; when the peg slips past, the flap springs back from rest
+        flap = pegBend;
+        flapSpeed = 0;
+      } else {
+        flapSpeed += (-POINTER_STIFFNESS * flap - POINTER_DAMPING * flapSpeed) * h;
+        flap = Math.max(-model.maxDeflection, Math.min(model.maxDeflection, flap + flapSpeed * h));
+      }
+    }
+  }
+
+  return { travel, rotations, pointer };
+};
+
+// Plans a physics spin that comes to rest on the same spot planSpin would pick. Falls back to
+// the eased plan when no launch speed lands on the target, which only tiny segments can cause.
+export const planPhysicsSpin = (
+  arcs: SegmentArc[],
+  targetIndex: number,
+  offsetFraction: number,
+  startRotation: number,
+  settings: SpinSettings
+): SpinPlan => {
+  const eased = planSpin(arcs, targetIndex, offsetFraction, startRotation, settings);
+  const travel = eased.targetRotation - eased.startRotation;
+  const duration = settings.durationMs / 1000;
+
+  // Without pegs the wheel would stop after exactly `duration` having covered `travel`; the
+  // solver below adds the speed the pegs take away
+  const viscous = VISCOUS_SHAPE / duration;
+  const frictionOverViscous = travel / ((Math.exp(viscous * duration) - 1) / viscous - duration);
+  const friction = viscous * frictionOverViscous;
+  const guess = frictionOverViscous * (Math.exp(viscous * duration) - 1);
+
+  const spacing = arcs.length > 1 ? Math.min(...arcs.map(arc => arc.endAngle - arc.startAngle)) : 360;
+  const contact = Math.min(PEG_CONTACT_DEG, spacing * 0.6);
+  const model: PhysicsModel = {
+    pegs: arcs.length > 1 ? arcs.map(arc => arc.startAngle) : [],
+    contact,
+    maxDeflection: MAX_POINTER_DEFLECTION_DEG * (contact / PEG_CONTACT_DEG),
+    friction,
+    viscous,
+    // Small pegs on a crowded wheel barely touch the flap, so they hardly push back either
+    pegPush: friction * PEG_PUSH_FACTOR * (contact / PEG_CONTACT_DEG),
+    maxSteps: Math.ceil((settings.durationMs * MAX_DURATION_FACTOR) / PHYSICS_STEP_MS),
+  };
+
+  const restsAt = (launchSpeed: number) => simulatePhysicsSpin(model, eased.startRotation, launchSpeed, false).travel;
+  // Narrows [low, high] to where restsAt crosses `target`, given restsAt(low) is on the `below`
+  // side. Regula falsi, halving the stale end's weight (Illinois) so it can't get stuck there.
+  const bisect = (low: number, high: number, target: number, below: boolean) => {
+    let lowError = restsAt(low) - target;
+    let highError = restsAt(high) - target;
+    let side = 0;
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+      const mid = lowError !== highError && (lowError < 0) === below && (highError < 0) !== below
+        ? low + (high - low) * lowError / (lowError - highError)
+        : (low + high) / 2;
+      const error = restsAt(mid) - target;
+      if (Math.abs(error) < SOLVER_TOLERANCE_DEG) return [mid, mid];
+      if ((error < 0) === below) {
+        low = mid;
+        lowError = error;
+        if (side === -1) highError /= 2;
+        side = -1;
+      } else {
+        high = mid;
+        highError = error;
+        if (side === 1) lowError /= 2;
+        side = 1;
+      }
+    }
+    return [low, high];
+  };
+
+  // The gentlest launch that reaches the spot
+  const [low, high] = bisect(guess * 0.5, guess * 2, travel, true);
+  const candidates = [high, low];
+
+  // Close to the next peg there is often a second way there: a little faster, so the wheel runs
+  // into the peg and rocks back onto the spot. That is the more dramatic finish, so try it first.
+  const pegTravel = travel + distanceToNextPeg(model.pegs, eased.targetRotation);
+  if (model.pegs.length > 0 && pegTravel - travel < model.contact * ROCK_BACK_REACH) {
+    // Just too slow to push the peg through, the wheel rocks back the furthest
+    const [justShort] = bisect(high, guess * 2, pegTravel, true);
+    if (justShort > high && restsAt(justShort) < travel) {
+      candidates.unshift(...bisect(high, justShort, travel, false).reverse());
+    }
+  }
+
+  // Just short of a peg the wheel can't rest (the flap would push it back), so the exact spot
+  // may be out of reach; then one side of the gap still rests inside the winner's segment
+  for (const launchSpeed of candidates) {
+    const run = simulatePhysicsSpin(model, eased.startRotation, launchSpeed, true);
+    const plan: SpinPlan = {
+      ...eased,
+      targetRotation: eased.startRotation + run.travel,
+      durationMs: (run.rotations.length - 1) * PHYSICS_STEP_MS,
+      trajectory: { rotations: Float64Array.from(run.rotations), pointer: Float64Array.from(run.pointer) },
+    };
+    if (getLandingIndex(plan) === targetIndex) return plan;
+  }
+  return eased;
+};
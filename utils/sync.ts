@@ -0,0 +1,63 @@
+import { DrawVisualization, Participant } from '../types';
+import { Theme } from './theme';
+
+// Keeps audience and overlay windows in step with the control window. Only the control window
+// picks winners and runs the spin; the others draw whatever it broadcasts.
+export const SYNC_CHANNEL_NAME = 'prize-wheel-sync';
+
+// Everything a follower window needs to draw the stage, apart from the per-frame rotation.
+export interface DisplayState {
+  theme: Theme;
+  participants: Participant[];
+  // The full list, which fixes each participant's colour.
+  originalParticipants: Participant[];
+  winner: Participant | null;
+  winnerCaption?: string;
+  winnerPrizeImageUrl?: string;
+  eliminatingPersonId: string | null;
+  visualization: DrawVisualization;
+  isSpinning: boolean;
+  isReturning: boolean;
+  wheelStartHue: number;
+  canvasWheelThreshold: number;
+}
+
+export type SyncMessage =
+  | { type: 'state'; state: DisplayState }
+  | { type: 'frame'; rotation: number; tickCount: number; pointerDeflection: number | null }
+  // A follower that just opened asks for the current state
+  | { type: 'hello' }
+  // Clicks on a follower's wheel are handed to the control window
+  | { type: 'command'; command: 'spin' | 'stop' };
+
+const SYNC_LEADER_LOCK_NAME = 'prize-wheel-sync-leader';
+
+// With several control windows open, only one may answer followers and run their commands,
+// or one click would start a spin in each. Runs `start` once this window holds the leader lock
+// (straight away without the Web Locks API) and the cleanup it returns when the returned
+// function is called; the next window in line then takes over.
+export const runAsSyncLeader = (start: () => () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return start();
+
+  const controller = new AbortController();
+  let stop: (() => void) | null = null;
+  let release = () => {};
+  navigator.locks.request(SYNC_LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+    stop = start();
+    return new Promise<void>(resolve => { release = resolve; });
+  }).catch(() => {
+    // Aborted while another window still held the lock
+  });
+  return () => {
+    controller.abort();
+    stop?.();
+    release();
+  };
+};
+
+export const openSyncChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(SYNC_CHANNEL_NAME);
+
+export const postSyncMessage = (channel: BroadcastChannel | null, message: SyncMessage): void => {
+  channel?.postMessage(message);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, THEME_PRESETS, isAllowedFontStylesheetUrl, normalizeTheme, parseThemeJson } from './theme';
+
+describe('isAllowedFontStylesheetUrl', () => {
+  it('accepts https links to the known font services', () => {
+    expect(isAllowedFontStylesheetUrl('https://fonts.googleapis.com/css2?family=Orbitron&display=swap')).toBe(true);
+    expect(isAllowedFontStylesheetUrl('https://fonts.bunny.net/css?family=inter:400')).toBe(true);
+    expect(isAllowedFontStylesheetUrl('https://use.typekit.net/abc1234.css')).toBe(true);
+  });
+
+  it('rejects other hosts, other protocols and anything that is not a URL', () => {
+    expect(isAllowedFontStylesheetUrl('http://fonts.googleapis.com/css2?family=Orbitron')).toBe(false);
+    expect(isAllowedFontStylesheetUrl('https://evil.example/fonts.css')).toBe(false);
+    expect(isAllowedFontStylesheetUrl('https://fonts.googleapis.com.evil.example/css')).toBe(false);
+    expect(isAllowedFontStylesheetUrl('data:text/css,body{display:none}')).toBe(false);
+    expect(isAllowedFontStylesheetUrl('javascript:alert(1)')).toBe(false);
+    expect(isAllowedFontStylesheetUrl('fonts.css')).toBe(false);
+    expect(isAllowedFontStylesheetUrl('')).toBe(false);
+  });
+});
+
+describe('normalizeTheme', () => {
+  it('keeps every preset as it is', () => {
+    THEME_PRESETS.forEach(preset => expect(normalizeTheme(preset)).toEqual(preset));
+  });
+
+  it('gives older saved themes a rim edge and hub in their frame colour', () => {
+    const { frameEdgeColor, hubColor, ...saved } = { ...DEFAULT_THEME, frameColor: '#123456' };
+    const theme = normalizeTheme(saved);
+    expect(theme.frameEdgeColor).toBe('#123456');
+    expect(theme.hubColor).toBe('#123456');
+  });
+
+  it('drops a font stylesheet from anywhere else', () => {
+    const theme = parseThemeJson(JSON.stringify({ ...DEFAULT_THEME, fontStylesheetUrl: 'https://evil.example/x.css' }));
+    expect(theme.fontStylesheetUrl).toBe('');
+  });
+});
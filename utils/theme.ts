@@ -0,0 +1,227 @@
+// Branding for the whole stage, so partner organisations can run co-branded giveaways.
+// A theme is plain JSON: it is saved in localStorage, mirrored to audience windows and can be
+// exported and imported as a file.
+
+export interface Theme {
+  name: string;
+  // Empty hides the logo.
+  logoUrl: string;
+  title: string;
+  subtitle: string;
+  // Optional stylesheet that loads the fonts below, e.g. a Google Fonts link.
+  fontStylesheetUrl: string;
+  titleFont: string;
+  bodyFont: string;
+  // Names on the wheel segments and cage balls.
+  wheelFont: string;
+  // The wave-lit letters of the title.
+  titleColor: string;
+  titleGlowColor: string;
+  subtitleColor: string;
+  // Segment colours in list order; once they run out the wheel generates more.
+  palette: string[];
+  pointerColor: string;
+  // Wooden rim and hub of the wheel.
+  frameColor: string;
+  // Thin outer edge of the rim.
+  frameEdgeColor: string;
+  // Inner disc of the hub, around the metal pin.
+  hubColor: string;
+  // Peak of the light wave while spinning.
+  lightsColor: string;
+  // Blinking of the lights once a winner is in.
+  winnerLightsColor: string;
+  confettiColors: string[];
+  backgroundColor: string;
+  // Empty for a plain background colour.
+  backgroundImageUrl: string;
+}
+
+export const DEFAULT_THEME: Theme = {
+  name: 'Score Milk',
+  logoUrl: 'https://i.postimg.cc/3RJKCdXW/smlogo1.png',
+  title: 'Score Milk Prize Wheel',
+  subtitle: 'Want your name here? Join Score Milk Tournaments and Engage on Social Media!',
+  fontStylesheetUrl: '',
+  titleFont: 'ui-sans-serif, system-ui, sans-serif',
+  bodyFont: 'ui-sans-serif, system-ui, sans-serif',
+  wheelFont: 'Comic Sans MS, sans-serif',
+  titleColor: '#48f5ba',
+  titleGlowColor: '#00ffa8',
+  subtitleColor: '#e1e1e1',
+  palette: ['#3b82f6', '#ef4444', '#eab308', '#22c55e', '#8b5cf6', '#ec4899', '#f97316'],
+  pointerColor: '#cbd5e1',
+  frameColor: '#40260f',
+  frameEdgeColor: '#35200d',
+  hubColor: '#3e2711',
+  lightsColor: '#ffffff',
+  winnerLightsColor: '#fcd34d',
+  confettiColors: ['#6366f1', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'],
+  backgroundColor: '#111827',
+  backgroundImageUrl: 'https://i.postimg.cc/PNnffWBh/Sem-Titulo-3.jpg',
+};
+
+export const THEME_PRESETS: Theme[] = [
+  DEFAULT_THEME,
+  {
+    ...DEFAULT_THEME,
+    name: 'Midnight Neon',
+    logoUrl: '',
+    title: 'Prize Wheel',
+    subtitle: 'Good luck, everyone!',
+    fontStylesheetUrl: 'https://fonts.googleapis.com/css2?family=Orbitron:wght@500;700&display=swap',
+    titleFont: 'Orbitron, sans-serif',
+    wheelFont: 'Orbitron, sans-serif',
+    titleColor: '#22d3ee',
+    titleGlowColor: '#e879f9',
+    subtitleColor: '#c4b5fd',
+    palette: ['#0ea5e9', '#d946ef', '#6366f1', '#14b8a6', '#f43f5e', '#8b5cf6'],
+    pointerColor: '#e879f9',
+    frameColor: '#1e1b4b',
+    frameEdgeColor: '#17153b',
+    hubColor: '#1c1946',
+    lightsColor: '#22d3ee',
+    winnerLightsColor: '#f0abfc',
+    confettiColors: ['#22d3ee', '#e879f9', '#a78bfa', '#f472b6'],
+    backgroundColor: '#0b1020',
+    backgroundImageUrl: '',
+  },
+  {
+    ...DEFAULT_THEME,
+    name: 'Casino Gold',
+    logoUrl: '',
+    title: 'Grand Prize Draw',
+    subtitle: 'Spin to win!',
+    fontStylesheetUrl: 'https://fonts.googleapis.com/css2?family=Playfair+Display:wght@400;700&display=swap',
+    titleFont: '"Playfair Display", serif',
+    wheelFont: '"Playfair Display", serif',
+    titleColor: '#fcd34d',
+    titleGlowColor: '#f59e0b',
+    subtitleColor: '#fde68a',
+    palette: ['#b91c1c', '#111827', '#15803d', '#b91c1c', '#111827', '#ca8a04'],
+    pointerColor: '#fbbf24',
+    frameColor: '#78350f',
+    frameEdgeColor: '#5f2a0c',
+    hubColor: '#713210',
+    lightsColor: '#fef3c7',
+    winnerLightsColor: '#fbbf24',
+    confettiColors: ['#fbbf24', '#f59e0b', '#b91c1c', '#fef3c7'],
+    backgroundColor: '#052e16',
+    backgroundImageUrl: '',
+  },
+  {
+    ...DEFAULT_THEME,
+    name: 'Clean Light',
+    logoUrl: '',
+    title: 'Giveaway',
+    subtitle: '',
+    wheelFont: 'ui-sans-serif, system-ui, sans-serif',
+    titleColor: '#1e293b',
+    titleGlowColor: '#6366f1',
+    subtitleColor: '#334155',
+    palette: ['#60a5fa', '#f87171', '#fbbf24', '#34d399', '#a78bfa', '#f472b6', '#fb923c'],
+    pointerColor: '#475569',
+    frameColor: '#cbd5e1',
+    frameEdgeColor: '#b8c3d1',
+    hubColor: '#c4cedb',
+    confettiColors: ['#60a5fa', '#f87171', '#fbbf24', '#34d399'],
+    backgroundColor: '#e2e8f0',
+    backgroundImageUrl: '',
+  },
+];
+
+// A font stylesheet is CSS from another site, applied to the control panel and every display
+// window, so only these font services are loaded, and only over https.
+export const FONT_STYLESHEET_HOSTS = ['fonts.googleapis.com', 'fonts.bunny.net', 'use.typekit.net'];
+
+export const isAllowedFontStylesheetUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && FONT_STYLESHEET_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+const isColorList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string' && item.trim() !== '');
+
+// Checks a saved or imported theme, filling anything missing or malformed from the default.
+export const normalizeTheme = (value: unknown): Theme => {
+  const theme = { ...DEFAULT_THEME };
+  if (!value || typeof value !== 'object') return theme;
+  const record = value as Record<string, unknown>;
+  (Object.keys(theme) as (keyof Theme)[]).forEach(key => {
+    const field = record[key];
+    if (Array.isArray(theme[key])) {
+      if (isColorList(field)) (theme as Record<string, unknown>)[key] = field.map(color => color.trim());
+    } else if (typeof field === 'string') {
+      (theme as Record<string, unknown>)[key] = field;
+    }
+  });
+  if (!isAllowedFontStylesheetUrl(theme.fontStylesheetUrl)) theme.fontStylesheetUrl = '';
+  // Themes saved before the rim edge and hub had colours of their own used the frame colour there
+  if (typeof record.frameColor === 'string') {
+    if (typeof record.frameEdgeColor !== 'string') theme.frameEdgeColor = record.frameColor;
+    if (typeof record.hubColor !== 'string') theme.hubColor = record.frameColor;
+  }
+  return theme;
+};
+
+// Parses an exported theme file; throws an Error with a readable message if it isn't one.
+export const parseThemeJson = (json: string): Theme => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value) || !Object.keys(DEFAULT_THEME).some(key => key in value)) {
+    throw new Error('The file does not contain a theme.');
+  }
+  return normalizeTheme(value);
+};
+
+export const serializeTheme = (theme: Theme): string => JSON.stringify(theme, null, 2);
+
+// Colour of the idx-th segment: the palette in order, then generated colours. The generated
+// ones use the golden angle (137.5°), so each new hue lands in the largest gap left in the
+// spectrum, starting from a hue chosen once per page load; saturation and lightness alternate
+// slightly so neighbours stay distinct, however many participants are added.
+export const getSegmentColor = (palette: string[], idx: number, startHue: number): string => {
+  if (idx < palette.length) return palette[idx];
+  const effectiveIndex = idx - palette.length;
+  const hue = (startHue + effectiveIndex * 137.5) % 360;
+  const saturation = effectiveIndex % 2 === 0 ? 80 : 70;
+  const lightness = effectiveIndex % 2 === 0 ? 55 : 60;
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+};
+
+const FONT_LINK_ID = 'theme-font-stylesheet';
+
+// Applies the page-wide parts of a theme: CSS variables used by index.html, the background and
+// the font stylesheet. Components read the rest from the theme they are given.
+export const applyThemeToDocument = (theme: Theme): void => {
+  const root = document.documentElement.style;
+  root.setProperty('--theme-title-color', theme.titleColor);
+  root.setProperty('--theme-title-glow', theme.titleGlowColor);
+  root.setProperty('--theme-lights-color', theme.lightsColor);
+  root.setProperty('--theme-winner-lights-color', theme.winnerLightsColor);
+  root.setProperty('--theme-background-color', theme.backgroundColor);
+  root.setProperty('--theme-background-image', theme.backgroundImageUrl ? `url(${JSON.stringify(theme.backgroundImageUrl)})` : 'none');
+  root.setProperty('--theme-body-font', theme.bodyFont);
+
+  let link = document.getElementById(FONT_LINK_ID) as HTMLLinkElement | null;
+  // The editor keeps half-typed links in the theme; those are never loaded
+  if (!isAllowedFontStylesheetUrl(theme.fontStylesheetUrl)) {
+    link?.remove();
+    return;
+  }
+  if (!link) {
+    link = document.createElement('link');
+    link.id = FONT_LINK_ID;
+    link.rel = 'stylesheet';
+    document.head.appendChild(link);
+  }
+  if (link.getAttribute('href') !== theme.fontStylesheetUrl) link.href = theme.fontStylesheetUrl;
+};
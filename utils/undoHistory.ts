@@ -0,0 +1,136 @@
+import { Participant } from '../types';
+import { normalizeParticipants } from './participants';
+
+export interface ParticipantSnapshot {
+  participants: Participant[];
+  // Participant ids in the order the wheel showed them, which differs from the list after a shuffle.
+  wheelOrder: string[];
+}
+
+export interface UndoEntry {
+  label: string;
+  raffleId: string;
+  before: ParticipantSnapshot;
+  after: ParticipantSnapshot;
+  timestamp: number;
+  // Consecutive changes with the same key (e.g. typing an entry count) collapse into one step.
+  coalesceKey?: string;
+}
+
+export interface UndoHistory {
+  undo: UndoEntry[];
+  redo: UndoEntry[];
+}
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { undo: [], redo: [] };
+
+const MAX_UNDO_ENTRIES = 50;
+// Every step holds two copies of a list, so long lists are capped by size as well: the undo and
+// redo stacks together stay under this many JSON characters (about 2 MB in localStorage), which
+// leaves room for the raffles themselves. The newest step is always kept.
+const MAX_UNDO_HISTORY_CHARS = 1_000_000;
+const COALESCE_WINDOW_MS = 1500;
+const STORAGE_KEY = 'participantUndoHistory';
+
+const entrySizes = new WeakMap<UndoEntry, number>();
+
+const getEntrySize = (entry: UndoEntry): number => {
+  let size = entrySizes.get(entry);
+  if (size === undefined) {
+    size = JSON.stringify(entry).length;
+    entrySizes.set(entry, size);
+  }
+  return size;
+};
+
+// Drops the oldest steps beyond the count and size limits.
+const capUndoEntries = (entries: UndoEntry[]): UndoEntry[] => {
+  const capped = entries.slice(-MAX_UNDO_ENTRIES);
+  let total = 0;
+  for (let i = capped.length - 1; i >= 0; i--) {
+    total += getEntrySize(capped[i]);
+    if (total > MAX_UNDO_HISTORY_CHARS && i < capped.length - 1) return capped.slice(i + 1);
+  }
+  return capped;
+};
+
+// Records a new change; any redo steps are discarded, as in every editor.
+export const pushUndoEntry = (history: UndoHistory, entry: UndoEntry): UndoHistory => {
+  const last = history.undo[history.undo.length - 1];
+  if (
+    last &&
+    entry.coalesceKey &&
+    last.coalesceKey === entry.coalesceKey &&
+    last.raffleId === entry.raffleId &&
+    entry.timestamp - last.timestamp < COALESCE_WINDOW_MS
+  ) {
+    const merged: UndoEntry = { ...entry, before: last.before };
+    return { undo: capUndoEntries([...history.undo.slice(0, -1), merged]), redo: [] };
+  }
+  return { undo: capUndoEntries([...history.undo, entry]), redo: [] };
+};
+
+// Drops every step that belongs to a raffle that no longer exists.
+export const removeRaffleFromUndoHistory = (history: UndoHistory, raffleId: string): UndoHistory => ({
+  undo: history.undo.filter(entry => entry.raffleId !== raffleId),
+  redo: history.redo.filter(entry => entry.raffleId !== raffleId),
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const normalizeSnapshot = (snapshot: unknown): ParticipantSnapshot => {
+  if (!isRecord(snapshot)) return { participants: [], wheelOrder: [] };
+  const { participants, wheelOrder } = snapshot;
+  return {
+    participants: normalizeParticipants(participants),
+    wheelOrder: Array.isArray(wheelOrder) ? wheelOrder.filter((id): id is string => typeof id === 'string') : [],
+  };
+};
+
+const normalizeEntries = (entries: unknown): UndoEntry[] =>
+  Array.isArray(entries)
+    ? entries.flatMap((entry): UndoEntry[] => {
+        if (!isRecord(entry) || typeof entry.label !== 'string' || typeof entry.raffleId !== 'string') return [];
+        return [{
+          label: entry.label,
+          raffleId: entry.raffleId,
+          before: normalizeSnapshot(entry.before),
+          after: normalizeSnapshot(entry.after),
+          timestamp: typeof entry.timestamp === 'number' ? entry.timestamp : 0,
+        }];
+      })
+    : [];
+
+export const loadUndoHistory = (): UndoHistory => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return EMPTY_UNDO_HISTORY;
+    const parsed: unknown = JSON.parse(saved);
+    if (!isRecord(parsed)) return EMPTY_UNDO_HISTORY;
+    return { undo: normalizeEntries(parsed.undo), redo: normalizeEntries(parsed.redo) };
+  } catch (error) {
+    console.error("Error parsing undo history from localStorage", error);
+    return EMPTY_UNDO_HISTORY;
+  }
+};
+
+// Returns false when the history could not be saved, e.g. because storage is full. The stale
+// copy is removed then, so it doesn't take up the space the raffles need.
+export const saveUndoHistory = (history: UndoHistory): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    return true;
+  } catch (error) {
+    console.error("Error saving undo history to localStorage", error);
+    localStorage.removeItem(STORAGE_KEY);
+    return false;
+  }
+};
+
+// Puts the participants in the saved wheel order; anyone not in the order goes at the end.
+export const applyWheelOrder = (participants: Participant[], wheelOrder: string[]): Participant[] => {
+  const positions = new Map(wheelOrder.map((id, index) => [id, index]));
+  return [...participants].sort(
+    (a, b) => (positions.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (positions.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+  );
+};
@@ -0,0 +1,67 @@
+import { Participant } from '../types';
+import { secureRandom } from './random';
+
+// Only the entry count matters for the wheel's geometry and odds.
+type Weighted = Pick<Participant, 'entries'>;
+
+export interface SegmentArc {
+  startAngle: number;
+  endAngle: number;
+}
+
+const getEntries = (participant: Weighted): number =>
+  Math.max(1, Math.floor(participant.entries) || 1);
+
+export const getTotalEntries = (participants: Weighted[]): number =>
+  participants.reduce((sum, p) => sum + getEntries(p), 0);
+
+// Each participant gets one segment whose arc is proportional to their entry count.
+// Angles are measured clockwise from the top of the wheel, in degrees.
+export const getSegmentArcs = (participants: Weighted[]): SegmentArc[] => {
+  const total = getTotalEntries(participants);
+  if (total === 0) return [];
+
+  let cumulative = 0;
+  return participants.map(participant => {
+    const startAngle = (cumulative / total) * 360;
+    cumulative += getEntries(participant);
+    const endAngle = (cumulative / total) * 360;
+    return { startAngle, endAngle };
+  });
+};
+
+// Finds which segment sits under the pointer (at the top) for a given wheel rotation.
+export const getSegmentIndexAtPointer = (arcs: SegmentArc[], rotation: number): number => {
+  const pointerAngle = ((-rotation % 360) + 360) % 360;
+  const index = arcs.findIndex(arc => pointerAngle >= arc.startAngle && pointerAngle < arc.endAngle);
+  return index !== -1 ? index : arcs.length - 1;
+};
+
+// Picks an index with probability proportional to each participant's entry count.
+export const pickWeightedIndex = (
+  participants: Weighted[],
+  randomInt: (maxExclusive: number) => number = secureRandom.randomInt,
+): number => {
+  const total = getTotalEntries(participants);
+  let ticket = randomInt(total);
+  for (let i = 0; i < participants.length; i++) {
+    ticket -= getEntries(participants[i]);
+    if (ticket < 0) return i;
+  }
+  return participants.length - 1;
+};
+
+// From this many participants the wheel is drawn on a canvas (see components/CanvasWheel.tsx),
+// since one SVG path and label per segment makes the browser stutter on big lists. Never below
+// two, so the single-participant layout stays SVG only.
+export const DEFAULT_CANVAS_WHEEL_THRESHOLD = 150;
+export const MIN_CANVAS_WHEEL_THRESHOLD = 2;
+export const MAX_CANVAS_WHEEL_THRESHOLD = 10000;
+
+export const normalizeCanvasWheelThreshold = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(MAX_CANVAS_WHEEL_THRESHOLD, Math.max(MIN_CANVAS_WHEEL_THRESHOLD, Math.round(value)))
+    : DEFAULT_CANVAS_WHEEL_THRESHOLD;
+
+export const shouldUseCanvasWheel = (participantCount: number, threshold: number): boolean =>
+  participantCount >= threshold;